@@ -1,2 +1,13 @@
 export * from './wamp/wamp';
+export * from './wamp/metrics';
+export * from './wamp/middleware';
 export * from './wamp/extras';
+export * from './wamp/contracts';
+export * from './wamp/meta';
+export * from './wamp/validation';
+export * from './wamp/serializers';
+export * from './wamp/ppt';
+export * from './wamp/rawsocket';
+export * from './wamp/auth';
+export * from './wamp/reconnect';
+export * from './wamp/router';
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { ticketAuth, wampcraAuth, cryptosignAuth, deriveKey, computeWcs } from './auth';
+
+describe('auth', () => {
+
+    describe('ticket', () => {
+        it('responds with the ticket', async () => {
+            const auth = ticketAuth('myId', 'some ticket');
+            expect(auth.authid).toBe('myId');
+            expect(auth.authmethods).toEqual(['ticket']);
+            expect(await auth.challenge('ticket', {})).toBe('some ticket');
+        });
+
+        it('responds with a ticket obtained on demand', async () => {
+            const auth = ticketAuth('myId', () => Promise.resolve('fresh ticket'));
+            expect(await auth.challenge('ticket', {})).toBe('fresh ticket');
+        });
+    });
+
+    describe('wampcra', () => {
+        // RFC 7914, section 11: PBKDF2-HMAC-SHA256 test vector
+        const rfc7914Key = 'VawEblbjCJ/sFpHCJUS2BflBhSFt3gRl5oudV8INrLxJypzM8Xm2RZkWZLOdd+8xfHG4RbHjC9UJESBB06GXgw==';
+        // RFC 4231, test case 2: HMAC-SHA256 test vector
+        const rfc4231Challenge = 'what do ya want for nothing?';
+        const rfc4231Signature = 'W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=';
+
+        it('derives a key', async () => {
+            expect(await deriveKey('passwd', 'salt', 1, 64)).toBe(rfc7914Key);
+        });
+
+        it('computes a signature', async () => {
+            expect(await computeWcs('Jefe', rfc4231Challenge)).toBe(rfc4231Signature);
+        });
+
+        it('signs a challenge', async () => {
+            const auth = wampcraAuth('myId', 'Jefe');
+            expect(auth.authmethods).toEqual(['wampcra']);
+            expect(await auth.challenge('wampcra', { challenge: rfc4231Challenge })).toBe(rfc4231Signature);
+        });
+
+        it('signs a challenge with a salted secret', async () => {
+            const auth = wampcraAuth('myId', 'passwd');
+            const signature = await auth.challenge('wampcra',
+                { challenge: rfc4231Challenge, salt: 'salt', iterations: 1, keylen: 64 });
+            expect(signature).toBe(await computeWcs(rfc7914Key, rfc4231Challenge));
+        });
+    });
+
+    describe('cryptosign', () => {
+        // RFC 8032, section 7.1: Ed25519 test vectors 1 and 2
+        const test1 = {
+            secretKey: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+            publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'
+        };
+        const test2 = {
+            secretKey: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+            message: '72',
+            signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+                '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+        };
+
+        it('announces the public key', async () => {
+            const auth = await cryptosignAuth('myId', test1.secretKey);
+            expect(auth.authmethods).toEqual(['cryptosign']);
+            expect(auth.authextra).toEqual({ pubkey: test1.publicKey });
+        });
+
+        it('signs a challenge', async () => {
+            const auth = await cryptosignAuth('myId', test2.secretKey);
+            expect(await auth.challenge('cryptosign', { challenge: test2.message }))
+                .toBe(test2.signature + test2.message);
+        });
+
+        it('binds the challenge to the channel', async () => {
+            // 0xff ^ 0x8d === 0x72, so the signed data is the message of test vector 2
+            const auth = await cryptosignAuth('myId', test2.secretKey, { channelId: new Uint8Array([0x8d]) });
+            expect(auth.authextra!.channel_binding).toBe('tls-unique');
+            expect(await auth.challenge('cryptosign', { challenge: 'ff' }))
+                .toBe(test2.signature + test2.message);
+        });
+
+        it('rejects a key of the wrong size', async () => {
+            await expect(cryptosignAuth('myId', 'abcd')).rejects.toThrow('Ed25519 private key must be 32 bytes, got 2');
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import { Dict, LoginAuth } from './wamp';
+import { toBase64 } from './bytes';
+
+// Ready-made authenticators to pass as the auth parameter of connectWampChannel().
+// They use WebCrypto, which is available in browsers and as globalThis.crypto in Node.js.
+// Older Node.js versions only expose it via node:crypto, so fall back to that.
+const nodeCrypto = 'node:crypto';
+
+const getSubtle = async (): Promise<SubtleCrypto> =>
+    globalThis.crypto?.subtle || (await import(/* @vite-ignore */ nodeCrypto)).webcrypto.subtle;
+
+const encoder = new TextEncoder();
+
+const fromHex = (hex: string) => {
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+        throw new Error(`Invalid hex string: ${hex}`);
+    }
+    return new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+};
+
+const toHex = (bytes: Uint8Array) =>
+    Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromBase64Url = (base64: string) =>
+    Uint8Array.from(atob(base64.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const xor = (a: Uint8Array, b: Uint8Array) => {
+    if (a.length !== b.length) {
+        throw new Error(`Cannot bind a ${a.length} bytes challenge to a ${b.length} bytes channel id`);
+    }
+    return a.map((byte, i) => byte ^ b[i]);
+};
+
+// WebCrypto can't import raw Ed25519 private keys. So wrap the 32 byte seed in a PKCS #8 structure.
+const ed25519Pkcs8Prefix = fromHex('302e020100300506032b657004220420');
+
+export const ticketAuth = (authid: string, ticket: string | (() => string | Promise<string>)): LoginAuth => ({
+    authid,
+    authmethods: ['ticket'],
+    challenge: () => typeof ticket === 'string' ? ticket : ticket()
+});
+
+// Derives the key of a salted WAMP-CRA secret (PBKDF2 with SHA-256). Returns it base64 encoded.
+export const deriveKey = async (secret: string, salt: string, iterations = 1000, keylen = 32): Promise<string> => {
+    const subtle = await getSubtle();
+    const key = await subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+    const bits = await subtle.deriveBits(
+        { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' }, key, keylen * 8);
+    return toBase64(new Uint8Array(bits));
+};
+
+// Computes the WAMP-CRA signature (HMAC-SHA256) of a challenge. Returns it base64 encoded.
+export const computeWcs = async (key: string, challenge: string): Promise<string> => {
+    const subtle = await getSubtle();
+    const hmacKey = await subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toBase64(new Uint8Array(await subtle.sign('HMAC', hmacKey, encoder.encode(challenge))));
+};
+
+export const wampcraAuth = (authid: string, secret: string): LoginAuth => ({
+    authid,
+    authmethods: ['wampcra'],
+    challenge: async (_, extra: Dict) => {
+        const key = extra.salt
+            ? await deriveKey(secret, extra.salt, extra.iterations, extra.keylen)
+            : secret;
+        return computeWcs(key, extra.challenge);
+    }
+});
+
+export interface CryptosignOptions {
+    // The tls-unique channel id of the underlying connection. When given, the
+    // authentication is bound to that connection.
+    channelId?: Uint8Array;
+}
+
+// privateKey is the 32 byte Ed25519 seed, either as hex string or as bytes.
+// It is async because deriving the public key to announce in HELLO is async in WebCrypto.
+export const cryptosignAuth = async (authid: string, privateKey: string | Uint8Array, options: CryptosignOptions = {}): Promise<LoginAuth> => {
+    const subtle = await getSubtle();
+    const seed = typeof privateKey === 'string' ? fromHex(privateKey) : privateKey;
+    if (seed.length !== 32) {
+        throw new Error(`Ed25519 private key must be 32 bytes, got ${seed.length}`);
+    }
+    const pkcs8 = new Uint8Array([...ed25519Pkcs8Prefix, ...seed]);
+    const key = await subtle.importKey('pkcs8', pkcs8, 'Ed25519', true, ['sign']);
+    const { x } = await subtle.exportKey('jwk', key);
+    const { channelId } = options;
+
+    return {
+        authid,
+        authmethods: ['cryptosign'],
+        authextra: {
+            pubkey: toHex(fromBase64Url(x!)),
+            ...(channelId ? { channel_binding: 'tls-unique' } : {})
+        },
+        challenge: async (_, extra: Dict) => {
+            const challenge = fromHex(extra.challenge);
+            const data = channelId ? xor(challenge, channelId) : challenge;
+            // The response is the signature followed by the signed data
+            const signature = new Uint8Array(await subtle.sign('Ed25519', key, data));
+            return toHex(signature) + toHex(data);
+        }
+    };
+};
@@ -0,0 +1,91 @@
+// Byte buffer helpers used by the binary serializers. Multi-byte values are big endian.
+
+export const textEncoder = new TextEncoder();
+export const textDecoder = new TextDecoder();
+
+export const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+};
+
+export const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const toUint8Array = (data: string | ArrayBuffer | Uint8Array): Uint8Array => {
+    if (typeof data === 'string') {
+        throw new Error('Expected binary data but received text');
+    }
+    return data instanceof Uint8Array ? data : new Uint8Array(data);
+};
+
+export const makeByteWriter = () => {
+    let buf = new Uint8Array(256);
+    let view = new DataView(buf.buffer);
+    let length = 0;
+
+    const reserve = (size: number) => {
+        if (length + size > buf.length) {
+            const grown = new Uint8Array(Math.max(buf.length * 2, length + size));
+            grown.set(buf);
+            buf = grown;
+            view = new DataView(buf.buffer);
+        }
+        const offset = length;
+        length += size;
+        return offset;
+    };
+
+    return {
+        uint8:   (value: number) => { view.setUint8(reserve(1), value); },
+        uint16:  (value: number) => { view.setUint16(reserve(2), value); },
+        uint32:  (value: number) => { view.setUint32(reserve(4), value); },
+        uint64:  (value: number) => { view.setBigUint64(reserve(8), BigInt(value)); },
+        int8:    (value: number) => { view.setInt8(reserve(1), value); },
+        int16:   (value: number) => { view.setInt16(reserve(2), value); },
+        int32:   (value: number) => { view.setInt32(reserve(4), value); },
+        int64:   (value: number) => { view.setBigInt64(reserve(8), BigInt(value)); },
+        float64: (value: number) => { view.setFloat64(reserve(8), value); },
+        bytes:   (value: Uint8Array) => { buf.set(value, reserve(value.length)); },
+        result:  () => buf.slice(0, length)
+    };
+};
+
+export const makeByteReader = (data: Uint8Array) => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let offset = 0;
+
+    const advance = (size: number) => {
+        if (offset + size > data.length) {
+            throw new Error('Unexpected end of data');
+        }
+        const current = offset;
+        offset += size;
+        return current;
+    };
+
+    return {
+        uint8:   () => view.getUint8(advance(1)),
+        uint16:  () => view.getUint16(advance(2)),
+        uint32:  () => view.getUint32(advance(4)),
+        uint64:  () => Number(view.getBigUint64(advance(8))),
+        int8:    () => view.getInt8(advance(1)),
+        int16:   () => view.getInt16(advance(2)),
+        int32:   () => view.getInt32(advance(4)),
+        int64:   () => Number(view.getBigInt64(advance(8))),
+        float32: () => view.getFloat32(advance(4)),
+        float64: () => view.getFloat64(advance(8)),
+        bytes:   (size: number) => {
+            const start = advance(size);
+            return data.slice(start, start + size);
+        },
+        peek:    () => {
+            const value = view.getUint8(advance(1));
+            --offset;
+            return value;
+        },
+        done:    () => offset === data.length
+    };
+};
+
+export type ByteWriter = ReturnType<typeof makeByteWriter>;
+export type ByteReader = ReturnType<typeof makeByteReader>;
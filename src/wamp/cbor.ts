@@ -0,0 +1,195 @@
+import { ByteReader, ByteWriter, makeByteReader, makeByteWriter, textDecoder, textEncoder } from './bytes';
+
+// Minimal CBOR codec, supporting everything that can appear in a WAMP message.
+// See RFC 8949
+
+enum MajorType {
+    UINT = 0,
+    NEGINT = 1,
+    BYTES = 2,
+    TEXT = 3,
+    ARRAY = 4,
+    MAP = 5,
+    TAG = 6,
+    SIMPLE = 7
+};
+
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+const encodeHead = (w: ByteWriter, major: MajorType, argument: number) => {
+    if (argument < 24) {
+        w.uint8(major << 5 | argument);
+    } else if (argument <= 0xff) {
+        w.uint8(major << 5 | 24); w.uint8(argument);
+    } else if (argument <= 0xffff) {
+        w.uint8(major << 5 | 25); w.uint16(argument);
+    } else if (argument <= 0xffffffff) {
+        w.uint8(major << 5 | 26); w.uint32(argument);
+    } else {
+        w.uint8(major << 5 | 27); w.uint64(argument);
+    }
+};
+
+const encodeValue = (w: ByteWriter, value: any): void => {
+    if (value === null || value === undefined) {
+        w.uint8(0xf6);
+    } else if (value === false) {
+        w.uint8(0xf4);
+    } else if (value === true) {
+        w.uint8(0xf5);
+    } else if (typeof value === 'number') {
+        if (!Number.isSafeInteger(value)) {
+            w.uint8(0xfb); w.float64(value);
+        } else if (value >= 0) {
+            encodeHead(w, MajorType.UINT, value);
+        } else {
+            encodeHead(w, MajorType.NEGINT, -1 - value);
+        }
+    } else if (typeof value === 'string') {
+        const bytes = textEncoder.encode(value);
+        encodeHead(w, MajorType.TEXT, bytes.length);
+        w.bytes(bytes);
+    } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+        const bytes = value instanceof Uint8Array ? value : new Uint8Array(value);
+        encodeHead(w, MajorType.BYTES, bytes.length);
+        w.bytes(bytes);
+    } else if (Array.isArray(value)) {
+        encodeHead(w, MajorType.ARRAY, value.length);
+        value.forEach(item => encodeValue(w, item));
+    } else if (typeof value === 'object') {
+        // Like JSON, leave out undefined properties
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+        encodeHead(w, MajorType.MAP, entries.length);
+        entries.forEach(([key, item]) => {
+            encodeValue(w, key);
+            encodeValue(w, item);
+        });
+    } else {
+        throw new Error(`Cannot encode ${typeof value} to CBOR`);
+    }
+};
+
+const decodeArgument = (r: ByteReader, info: number) => {
+    if (info < 24) {
+        return info;
+    }
+    switch (info) {
+        case 24: return r.uint8();
+        case 25: return r.uint16();
+        case 26: return r.uint32();
+        case 27: return r.uint64();
+    }
+    throw new Error(`Unsupported CBOR argument ${info}`);
+};
+
+const decodeHalfFloat = (half: number) => {
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) {
+        return sign * fraction * 2 ** -24;
+    }
+    if (exponent === 0x1f) {
+        return fraction ? NaN : sign * Infinity;
+    }
+    return sign * (1024 + fraction) * 2 ** (exponent - 25);
+};
+
+// Items of indefinite length containers end with a break byte
+const decodeItems = (r: ByteReader, info: number, decodeItem: () => void) => {
+    if (info !== INDEFINITE) {
+        const length = decodeArgument(r, info);
+        for (let i = 0; i < length; ++i) {
+            decodeItem();
+        }
+        return;
+    }
+    while (r.peek() !== BREAK) {
+        decodeItem();
+    }
+    r.uint8();
+};
+
+const decodeChunks = (r: ByteReader, major: MajorType, info: number) => {
+    const chunks: Uint8Array[] = [];
+    if (info !== INDEFINITE) {
+        chunks.push(r.bytes(decodeArgument(r, info)));
+    } else {
+        decodeItems(r, info, () => {
+            const head = r.uint8();
+            if (head >> 5 !== major) {
+                throw new Error('Invalid chunk in indefinite length CBOR string');
+            }
+            chunks.push(r.bytes(decodeArgument(r, head & 0x1f)));
+        });
+    }
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+    const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    chunks.reduce((offset, chunk) => {
+        result.set(chunk, offset);
+        return offset + chunk.length;
+    }, 0);
+    return result;
+};
+
+const decodeValue = (r: ByteReader): any => {
+    const head = r.uint8();
+    const major: MajorType = head >> 5;
+    const info = head & 0x1f;
+    switch (major) {
+        case MajorType.UINT:
+            return decodeArgument(r, info);
+        case MajorType.NEGINT:
+            return -1 - decodeArgument(r, info);
+        case MajorType.BYTES:
+            return decodeChunks(r, major, info);
+        case MajorType.TEXT:
+            return textDecoder.decode(decodeChunks(r, major, info));
+        case MajorType.ARRAY: {
+            const array: any[] = [];
+            decodeItems(r, info, () => array.push(decodeValue(r)));
+            return array;
+        }
+        case MajorType.MAP: {
+            const map: {[key: string]: any} = {};
+            decodeItems(r, info, () => {
+                const key = decodeValue(r);
+                map[key] = decodeValue(r);
+            });
+            return map;
+        }
+        case MajorType.TAG:
+            // Tags have no meaning in WAMP, so just take the tagged value
+            decodeArgument(r, info);
+            return decodeValue(r);
+        case MajorType.SIMPLE:
+            switch (info) {
+                case 20: return false;
+                case 21: return true;
+                case 22: return null;
+                case 23: return undefined;
+                case 25: return decodeHalfFloat(r.uint16());
+                case 26: return r.float32();
+                case 27: return r.float64();
+            }
+    }
+    throw new Error(`Unsupported CBOR item 0x${head.toString(16)}`);
+};
+
+export const encodeCbor = (value: any): Uint8Array => {
+    const w = makeByteWriter();
+    encodeValue(w, value);
+    return w.result();
+};
+
+export const decodeCbor = (data: Uint8Array): any => {
+    const r = makeByteReader(data);
+    const value = decodeValue(r);
+    if (!r.done()) {
+        throw new Error('Unexpected data after CBOR value');
+    }
+    return value;
+};
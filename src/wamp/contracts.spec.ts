@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { of, lastValueFrom, firstValueFrom } from 'rxjs';
+import { connectWampChannel, WampError } from './wamp';
+import { toPromise } from './extras';
+import { createWampRouter } from './router';
+import { defineProcedure, defineTopic } from './contracts';
+
+describe('contracts', () => {
+
+    const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const add = defineProcedure<{ args: [number, number], kwargs: { round?: boolean }, result: [number] }>('com.app.add');
+    const ping = defineProcedure<{ resultKwargs: { pong?: boolean } }>('com.app.ping');
+    const log = defineTopic<{ args: [string], kwargs: { level: number } }>('com.app.log');
+
+    const connect = async () => {
+        const router = createWampRouter();
+        const channel1 = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        const channel2 = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        return { channel1, channel2 };
+    };
+
+    describe('defineProcedure', () => {
+        it('calls and registers a procedure', async () => {
+            const { channel1, channel2 } = await connect();
+            await add.register(channel1, ([a, b], { round }) => of([[round ? Math.round(a + b) : a + b]]));
+
+            expect(await lastValueFrom(add.call(channel2, [1, 2.4]))).toEqual([[3.4], {}]);
+            expect(await lastValueFrom(add.call(channel2, [1, 2.4], { round: true }))).toEqual([[3], {}]);
+        });
+
+        it('passes missing args and kwargs as empty ones', async () => {
+            const { channel1, channel2 } = await connect();
+            const func = vi.fn(() => of<[[], { pong: boolean }]>([[], { pong: true }]));
+            await ping.register(channel1, func);
+
+            expect(await lastValueFrom(ping.call(channel2, []))).toEqual([[], { pong: true }]);
+            expect(func).toHaveBeenCalledWith([], {}, expect.objectContaining({ procedure: 'com.app.ping' }));
+        });
+
+        it('validates arguments and results at runtime', async () => {
+            const { channel1, channel2 } = await connect();
+            const isNumbers = (args: any[]) => args.every(arg => typeof arg === 'number');
+            const validated = defineProcedure<{ args: [number, number], result: [number] }>('com.app.validated',
+                { args: isNumbers, result: isNumbers });
+            await validated.register(channel1, ([a, b]) => of([[a + b]]));
+            // Bypasses the compile time check, like a caller without the contract would
+            await expect(lastValueFrom(channel2.call('com.app.validated', [1, '2'])))
+                .rejects.toEqual(new WampError('wamp.error.invalid_argument', ['Invalid args']));
+
+            await channel1.register('com.app.untyped', () => of([['3']]));
+            const untyped = defineProcedure<{ result: [number] }>('com.app.untyped', { result: isNumbers });
+            await expect(lastValueFrom(untyped.call(channel2, [])))
+                .rejects.toEqual(new WampError('wamp.error.invalid_argument', ['Invalid result args']));
+        });
+
+        it('exposes the uri', () => {
+            expect(add.uri).toBe('com.app.add');
+        });
+    });
+
+    describe('defineTopic', () => {
+        it('publishes and subscribes to a topic', async () => {
+            const { channel1, channel2 } = await connect();
+            const event = firstValueFrom(log.subscribe(channel1));
+            await handleQueuedEvents();
+            const publication = await log.publish(channel2, ['started'], { level: 1 });
+
+            expect(await event).toEqual([['started'], { level: 1 }, { topic: 'com.app.log', publication }]);
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import { Observable, Subscription, map } from 'rxjs';
+import { Args, Dict, CallOptions, EventDetails, InvocationDetails, PublishOptions, RegisterOptions,
+    SubscribeOptions, WampChannel } from './wamp';
+import { Validator, validateResult, withArgsValidation } from './validation';
+
+// Typed contracts of procedures and topics. A contract is declared once and shared by both
+// sides, so the caller and callee (or publisher and subscriber) are checked against the same
+// definition at compile time. At runtime, only procedures given validators are checked.
+
+export interface ProcedureSignature {
+    args?: Args;
+    kwargs?: Dict;
+    result?: Args;
+    resultKwargs?: Dict;
+}
+
+// Optional runtime validation of a procedure. Arguments are validated by register(),
+// results by call().
+export interface ProcedureValidation {
+    args?: Validator;
+    kwargs?: Validator;
+    result?: Validator;
+    resultKwargs?: Validator;
+}
+
+export interface TopicSignature {
+    args?: Args;
+    kwargs?: Dict;
+}
+
+// Type of field K of signature S, or D when S doesn't declare it
+type Field<S, K extends string, D> = S extends { [key in K]: infer T } ? T : D;
+
+export type ContractArgs<S>         = Field<S, 'args', []>;
+export type ContractKwargs<S>       = Field<S, 'kwargs', {}>;
+export type ContractResult<S>       = Field<S, 'result', []>;
+export type ContractResultKwargs<S> = Field<S, 'resultKwargs', {}>;
+
+export type TypedResult<S extends ProcedureSignature> = [ContractResult<S>, ContractResultKwargs<S>?];
+export type TypedEvent<S extends TopicSignature> = [ContractArgs<S>, ContractKwargs<S>, EventDetails];
+export type TypedFunc<S extends ProcedureSignature> =
+    (args: ContractArgs<S>, kwargs: ContractKwargs<S>, details: InvocationDetails) => Observable<TypedResult<S>>;
+
+export interface ProcedureContract<S extends ProcedureSignature> {
+    uri: string;
+    call(channel: Pick<WampChannel, 'call'>, args: ContractArgs<S>, kwargs?: ContractKwargs<S>,
+        options?: CallOptions): Observable<[ContractResult<S>, ContractResultKwargs<S>]>;
+    register(channel: Pick<WampChannel, 'register'>, func: TypedFunc<S>, options?: RegisterOptions): Promise<Subscription>;
+}
+
+export interface TopicContract<S extends TopicSignature> {
+    uri: string;
+    publish(channel: Pick<WampChannel, 'publish'>, args: ContractArgs<S>, kwargs?: ContractKwargs<S>,
+        options?: PublishOptions): Promise<number>;
+    subscribe(channel: Pick<WampChannel, 'subscribe'>, options?: SubscribeOptions): Observable<TypedEvent<S>>;
+}
+
+// Missing args or kwargs are passed as empty ones, so they match their declared type
+// when it has no required fields.
+
+export const defineProcedure = <S extends ProcedureSignature>(uri: string, validation: ProcedureValidation = {}): ProcedureContract<S> => ({
+    uri,
+    call: (channel, args, kwargs, options) => channel.call(uri, args, kwargs, options).pipe(
+        validateResult({ args: validation.result, kwargs: validation.resultKwargs }),
+        map(([resultArgs, resultKwargs]) => [
+            (resultArgs || []) as ContractResult<S>,
+            (resultKwargs || {}) as ContractResultKwargs<S>
+        ])),
+    register: (channel, func, options) => channel.register(uri, withArgsValidation(validation,
+        (args, kwargs, details) => func((args || []) as ContractArgs<S>, (kwargs || {}) as ContractKwargs<S>, details!)),
+        options)
+});
+
+export const defineTopic = <S extends TopicSignature>(uri: string): TopicContract<S> => ({
+    uri,
+    publish: (channel, args, kwargs, options) => channel.publish(uri, args, kwargs, options),
+    subscribe: (channel, options) => channel.subscribe(uri, options).pipe(
+        map(([args, kwargs, details]) => [
+            (args || []) as ContractArgs<S>,
+            (kwargs || {}) as ContractKwargs<S>,
+            details
+        ]))
+});
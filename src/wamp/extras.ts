@@ -16,5 +16,5 @@ export const toPromise = <T>(resource$: Observable<T>) =>
 export const toWampFunc = (origFunc: (...args: any[]) => Observable<any>): RegisteredFunc =>
     args => origFunc(...(args || [])).pipe(map(it => [[it]]));
 
-export const wampCall = <T = any>(channel: WampChannel, uri: string, ...args: any[]): Observable<T> =>
+export const wampCall = <T = any>(channel: Pick<WampChannel, 'call'>, uri: string, ...args: any[]): Observable<T> =>
     channel.call(uri, args).pipe(map(([ret]) => (ret || [])[0]));
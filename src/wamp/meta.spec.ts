@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { connectWampChannel, WampMessageEnum } from './wamp';
+import { toPromise } from './extras';
+import { createFakeRouter } from './testing';
+import { createMetaApi } from './meta';
+
+describe('meta', () => {
+
+    const connect = async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        return { router, meta: createMetaApi(channel) };
+    };
+
+    it('calls the session procedures', async () => {
+        const { router, meta } = await connect();
+        router.answerCall('wamp.session.count', [[2]]);
+        router.answerCall('wamp.session.get', [[{ session: 5, authrole: 'user' }]]);
+        expect(await meta.session.count()).toBe(2);
+        expect(await meta.session.get(5)).toEqual({ session: 5, authrole: 'user' });
+
+        meta.session.list(['user']);
+        router.expectSent([WampMessageEnum.CALL, expect.any(Number), expect.any(Object), 'wamp.session.list', [['user']]]);
+    });
+
+    it('adds and flushes testaments', async () => {
+        const { router, meta } = await connect();
+        meta.session.addTestament('com.app.gone', ['bye'], {}, { scope: 'detached' });
+        router.expectSent([WampMessageEnum.CALL, expect.any(Number), expect.any(Object), 'wamp.session.add_testament',
+            ['com.app.gone', ['bye'], {}], { scope: 'detached' }]);
+
+        router.answerCall('wamp.session.flush_testaments', [[1]]);
+        expect(await meta.session.flushTestaments()).toBe(1);
+    });
+
+    it('looks up registrations and subscriptions', async () => {
+        const { router, meta } = await connect();
+        router.answerCall('wamp.registration.lookup', [[null]]);
+        router.answerCall('wamp.subscription.match', [[[7, 8]]]);
+        router.answerCall('wamp.subscription.list', [[{ exact: [7], prefix: [8], wildcard: [] }]]);
+        expect(await meta.registration.lookup('com.app.add')).toBeNull();
+        expect(await meta.subscription.match('com.app.topic')).toEqual([7, 8]);
+        expect(await meta.subscription.list()).toEqual({ exact: [7], prefix: [8], wildcard: [] });
+
+        meta.subscription.lookup('com.app.', 'prefix');
+        router.expectSent([WampMessageEnum.CALL, expect.any(Number), expect.any(Object), 'wamp.subscription.lookup',
+            ['com.app.', { match: 'prefix' }]]);
+    });
+
+    it('receives meta events', async () => {
+        const { router, meta } = await connect();
+        const events: any[] = [];
+        meta.session.onLeave$.subscribe(it => events.push(it));
+        meta.registration.onRegister$.subscribe(it => events.push(it));
+        const [[, leaveReqId], [, registerReqId]] = router.expectSent(
+            [WampMessageEnum.SUBSCRIBE, expect.any(Number), {}, 'wamp.session.on_leave'],
+            [WampMessageEnum.SUBSCRIBE, expect.any(Number), {}, 'wamp.registration.on_register']);
+        router.receive([WampMessageEnum.SUBSCRIBED, leaveReqId, 1]);
+        router.receive([WampMessageEnum.SUBSCRIBED, registerReqId, 2]);
+        await Promise.resolve();
+
+        router.receive([WampMessageEnum.EVENT, 1, 100, {}, [5, 'joe', 'user']]);
+        router.receive([WampMessageEnum.EVENT, 2, 101, {}, [5, 9]]);
+        expect(events).toEqual([
+            { session: 5, authid: 'joe', authrole: 'user' },
+            { session: 5, registration: 9 }
+        ]);
+    });
+});
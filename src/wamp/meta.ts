@@ -0,0 +1,202 @@
+import { Observable, lastValueFrom, map } from 'rxjs';
+import { Args, Dict, MatchPolicy, InvocationPolicy, PublishOptions, WampChannel } from './wamp';
+import { ProcedureContract, ProcedureSignature, ContractArgs, ContractKwargs, ContractResult,
+    defineProcedure, defineTopic } from './contracts';
+
+// Typed client of the router meta API, which lets sessions inspect the sessions, registrations
+// and subscriptions of their realm. Not all routers support it, or all of it, and most only
+// allow it for some roles. See the WAMP RFC for the exact meaning of everything.
+
+export interface SessionDetails {
+    session: number;
+    authid?: string;
+    authrole?: string;
+    authmethod?: string;
+    authprovider?: string;
+    authextra?: Dict;
+    transport?: Dict;
+}
+
+export interface SessionLeft {
+    session: number;
+    authid?: string;
+    authrole?: string;
+}
+
+export interface RegistrationDetails {
+    id: number;
+    // ISO 8601 timestamp
+    created: string;
+    uri: string;
+    match: MatchPolicy;
+    invoke: InvocationPolicy;
+}
+
+export interface SubscriptionDetails {
+    id: number;
+    created: string;
+    uri: string;
+    match: MatchPolicy;
+}
+
+export interface IdsByMatchPolicy {
+    exact: number[];
+    prefix: number[];
+    wildcard: number[];
+}
+
+// When a testament is published: when the session is destroyed, or already when its
+// transport is lost.
+export type TestamentScope = 'destroyed' | 'detached';
+
+export interface TestamentOptions {
+    publish_options?: PublishOptions;
+    scope?: TestamentScope;
+}
+
+export interface SessionMetaApi {
+    // Number or ids of the sessions of the realm, optionally only those with one of the given roles
+    count(authroles?: string[]): Promise<number>;
+    list(authroles?: string[]): Promise<number[]>;
+    get(session: number): Promise<SessionDetails>;
+    // Lets the router publish an event when this session ends, also when it ends unexpectedly
+    addTestament(topic: string, args?: Args, kwargs?: Dict, options?: TestamentOptions): Promise<void>;
+    // Removes the testaments of this session and resolves with how many were removed
+    flushTestaments(scope?: TestamentScope): Promise<number>;
+    onJoin$: Observable<SessionDetails>;
+    onLeave$: Observable<SessionLeft>;
+}
+
+export interface RegistrationMetaApi {
+    list(): Promise<IdsByMatchPolicy>;
+    // The registration of exactly this URI and match policy, or null when there is none
+    lookup(uri: string, match?: MatchPolicy): Promise<number | null>;
+    // The registration a call to uri would be routed to, or null when there is none
+    match(uri: string): Promise<number | null>;
+    get(registration: number): Promise<RegistrationDetails>;
+    listCallees(registration: number): Promise<number[]>;
+    countCallees(registration: number): Promise<number>;
+    onCreate$: Observable<{ session: number, registration: RegistrationDetails }>;
+    onRegister$: Observable<{ session: number, registration: number }>;
+    onUnregister$: Observable<{ session: number, registration: number }>;
+    onDelete$: Observable<{ session: number, registration: number }>;
+}
+
+export interface SubscriptionMetaApi {
+    list(): Promise<IdsByMatchPolicy>;
+    lookup(uri: string, match?: MatchPolicy): Promise<number | null>;
+    // The subscriptions an event published to uri would be delivered to, or null when there are none
+    match(uri: string): Promise<number[] | null>;
+    get(subscription: number): Promise<SubscriptionDetails>;
+    listSubscribers(subscription: number): Promise<number[]>;
+    countSubscribers(subscription: number): Promise<number>;
+    onCreate$: Observable<{ session: number, subscription: SubscriptionDetails }>;
+    onSubscribe$: Observable<{ session: number, subscription: number }>;
+    onUnsubscribe$: Observable<{ session: number, subscription: number }>;
+    onDelete$: Observable<{ session: number, subscription: number }>;
+}
+
+export interface WampMetaApi {
+    session: SessionMetaApi;
+    registration: RegistrationMetaApi;
+    subscription: SubscriptionMetaApi;
+}
+
+// Type of the first result arg of a procedure
+type FirstResult<S> = ContractResult<S> extends [infer T, ...any[]] ? T : void;
+
+type Ids = { args: [number], result: [number[]] };
+type Count = { args: [number], result: [number] };
+type Lookup = { args: [string, { match?: MatchPolicy }?], result: [number | null] };
+type SessionIdAndId = { args: [number, number] };
+
+const session = {
+    count:           defineProcedure<{ args: [string[]?], result: [number] }>('wamp.session.count'),
+    list:            defineProcedure<{ args: [string[]?], result: [number[]] }>('wamp.session.list'),
+    get:             defineProcedure<{ args: [number], result: [SessionDetails] }>('wamp.session.get'),
+    addTestament:    defineProcedure<{ args: [string, Args, Dict], kwargs: TestamentOptions }>('wamp.session.add_testament'),
+    flushTestaments: defineProcedure<{ kwargs: { scope?: TestamentScope }, result: [number] }>('wamp.session.flush_testaments'),
+    onJoin:          defineTopic<{ args: [SessionDetails] }>('wamp.session.on_join'),
+    onLeave:         defineTopic<{ args: [number, string?, string?] }>('wamp.session.on_leave')
+};
+
+const registration = {
+    list:         defineProcedure<{ result: [IdsByMatchPolicy] }>('wamp.registration.list'),
+    lookup:       defineProcedure<Lookup>('wamp.registration.lookup'),
+    match:        defineProcedure<{ args: [string], result: [number | null] }>('wamp.registration.match'),
+    get:          defineProcedure<{ args: [number], result: [RegistrationDetails] }>('wamp.registration.get'),
+    listCallees:  defineProcedure<Ids>('wamp.registration.list_callees'),
+    countCallees: defineProcedure<Count>('wamp.registration.count_callees'),
+    onCreate:     defineTopic<{ args: [number, RegistrationDetails] }>('wamp.registration.on_create'),
+    onRegister:   defineTopic<SessionIdAndId>('wamp.registration.on_register'),
+    onUnregister: defineTopic<SessionIdAndId>('wamp.registration.on_unregister'),
+    onDelete:     defineTopic<SessionIdAndId>('wamp.registration.on_delete')
+};
+
+const subscription = {
+    list:             defineProcedure<{ result: [IdsByMatchPolicy] }>('wamp.subscription.list'),
+    lookup:           defineProcedure<Lookup>('wamp.subscription.lookup'),
+    match:            defineProcedure<{ args: [string], result: [number[] | null] }>('wamp.subscription.match'),
+    get:              defineProcedure<{ args: [number], result: [SubscriptionDetails] }>('wamp.subscription.get'),
+    listSubscribers:  defineProcedure<Ids>('wamp.subscription.list_subscribers'),
+    countSubscribers: defineProcedure<Count>('wamp.subscription.count_subscribers'),
+    onCreate:         defineTopic<{ args: [number, SubscriptionDetails] }>('wamp.subscription.on_create'),
+    onSubscribe:      defineTopic<SessionIdAndId>('wamp.subscription.on_subscribe'),
+    onUnsubscribe:    defineTopic<SessionIdAndId>('wamp.subscription.on_unsubscribe'),
+    onDelete:         defineTopic<SessionIdAndId>('wamp.subscription.on_delete')
+};
+
+export const createMetaApi = (channel: Pick<WampChannel, 'call' | 'subscribe'>): WampMetaApi => {
+    // Resolves with the first result arg of the final result
+    const call = <S extends ProcedureSignature>(procedure: ProcedureContract<S>, args: ContractArgs<S>,
+        kwargs?: ContractKwargs<S>): Promise<FirstResult<S>> =>
+        lastValueFrom(procedure.call(channel, args, kwargs), { defaultValue: undefined })
+            .then((result?: [Args?, Dict?]) => result?.[0]?.[0]);
+    const optional = <T>(value?: T): [T?] => value === undefined ? [] : [value];
+
+    return {
+        session: {
+            count: authroles => call(session.count, optional(authroles)),
+            list: authroles => call(session.list, optional(authroles)),
+            get: id => call(session.get, [id]),
+            addTestament: (topic, args = [], kwargs = {}, options = {}) =>
+                call(session.addTestament, [topic, args, kwargs], options),
+            flushTestaments: scope => call(session.flushTestaments, [], scope ? { scope } : {}),
+            onJoin$: session.onJoin.subscribe(channel).pipe(map(([[details]]) => details)),
+            onLeave$: session.onLeave.subscribe(channel).pipe(
+                map(([[id, authid, authrole]]) => ({ session: id, authid, authrole })))
+        },
+        registration: {
+            list: () => call(registration.list, []),
+            lookup: (uri, match) => call(registration.lookup, [uri, ...optional(match && { match })]),
+            match: uri => call(registration.match, [uri]),
+            get: id => call(registration.get, [id]),
+            listCallees: id => call(registration.listCallees, [id]),
+            countCallees: id => call(registration.countCallees, [id]),
+            onCreate$: registration.onCreate.subscribe(channel).pipe(
+                map(([[id, details]]) => ({ session: id, registration: details }))),
+            onRegister$: registration.onRegister.subscribe(channel).pipe(
+                map(([[id, registrationId]]) => ({ session: id, registration: registrationId }))),
+            onUnregister$: registration.onUnregister.subscribe(channel).pipe(
+                map(([[id, registrationId]]) => ({ session: id, registration: registrationId }))),
+            onDelete$: registration.onDelete.subscribe(channel).pipe(
+                map(([[id, registrationId]]) => ({ session: id, registration: registrationId })))
+        },
+        subscription: {
+            list: () => call(subscription.list, []),
+            lookup: (uri, match) => call(subscription.lookup, [uri, ...optional(match && { match })]),
+            match: uri => call(subscription.match, [uri]),
+            get: id => call(subscription.get, [id]),
+            listSubscribers: id => call(subscription.listSubscribers, [id]),
+            countSubscribers: id => call(subscription.countSubscribers, [id]),
+            onCreate$: subscription.onCreate.subscribe(channel).pipe(
+                map(([[id, details]]) => ({ session: id, subscription: details }))),
+            onSubscribe$: subscription.onSubscribe.subscribe(channel).pipe(
+                map(([[id, subscriptionId]]) => ({ session: id, subscription: subscriptionId }))),
+            onUnsubscribe$: subscription.onUnsubscribe.subscribe(channel).pipe(
+                map(([[id, subscriptionId]]) => ({ session: id, subscription: subscriptionId }))),
+            onDelete$: subscription.onDelete.subscribe(channel).pipe(
+                map(([[id, subscriptionId]]) => ({ session: id, subscription: subscriptionId })))
+        }
+    };
+};
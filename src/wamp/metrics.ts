@@ -0,0 +1,121 @@
+import { Observable, Subject, startWith, map } from 'rxjs';
+import { WampMessageEnum } from './wamp';
+
+// Metrics of a channel, for dashboards and alerting. The counters start when the channel is
+// created, so a reconnect starts them all over.
+
+// Upper bounds in ms of the buckets of latency distributions. The last bucket counts
+// everything slower than the last bound.
+export const latencyBuckets = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface LatencyDistribution {
+    count: number;
+    // In ms
+    min: number;
+    max: number;
+    mean: number;
+    // Number of samples per bucket of latencyBuckets, plus one for the slower ones
+    buckets: number[];
+}
+
+export type MessageCounts = {[msgType in WampMessageEnum]?: number};
+
+export interface WampMetrics {
+    // Number of messages sent to and received from the router, by message type
+    sent: MessageCounts;
+    received: MessageCounts;
+    // Calls waiting for their final result
+    inFlightCalls: number;
+    // Invocations being handled by registered functions, and those waiting for one of them
+    // to finish because of a concurrency limit
+    inFlightInvocations: number;
+    queuedInvocations: number;
+    // Time from sending a CALL until its final RESULT or ERROR, by procedure URI.
+    // Calls canceled before that are not included.
+    callLatency: {[uri: string]: LatencyDistribution};
+    // Number of ERROR messages, by error URI
+    errorsReceived: {[uri: string]: number};
+    errorsSent: {[uri: string]: number};
+    // Active subscriptions and registrations
+    subscriptions: number;
+    registrations: number;
+}
+
+export type MetricsGauge = 'inFlightCalls' | 'inFlightInvocations' | 'queuedInvocations' | 'subscriptions' | 'registrations';
+
+// Collects the metrics of one channel. Used by the channel itself.
+export interface MetricsRecorder {
+    // The error URI is given for ERROR messages
+    messageSent(msgType: WampMessageEnum, errorUri?: string): void;
+    messageReceived(msgType: WampMessageEnum, errorUri?: string): void;
+    add(gauge: MetricsGauge, delta: number): void;
+    callLatency(uri: string, ms: number): void;
+    // Emits a snapshot right away, and a new one on every change
+    metrics$: Observable<WampMetrics>;
+}
+
+const emptyLatency = (): LatencyDistribution => ({
+    count: 0, min: Infinity, max: 0, mean: 0, buckets: [...latencyBuckets, Infinity].map(() => 0)
+});
+
+const increment = (counts: {[key: string]: number}, key: string | number) =>
+    counts[key] = (counts[key] || 0) + 1;
+
+export const createMetricsRecorder = (): MetricsRecorder => {
+    const metrics: WampMetrics = {
+        sent: {},
+        received: {},
+        inFlightCalls: 0,
+        inFlightInvocations: 0,
+        queuedInvocations: 0,
+        callLatency: {},
+        errorsReceived: {},
+        errorsSent: {},
+        subscriptions: 0,
+        registrations: 0
+    };
+    const changed = new Subject<void>();
+
+    const countMessage = (counts: MessageCounts, errors: {[uri: string]: number}, msgType: WampMessageEnum, errorUri?: string) => {
+        increment(counts, msgType);
+        if (errorUri !== undefined) {
+            increment(errors, errorUri);
+        }
+        changed.next();
+    };
+
+    const callLatency = (uri: string, ms: number) => {
+        const latency = metrics.callLatency[uri] = metrics.callLatency[uri] || emptyLatency();
+        latency.mean = (latency.mean * latency.count + ms) / (latency.count + 1);
+        latency.count++;
+        latency.min = Math.min(latency.min, ms);
+        latency.max = Math.max(latency.max, ms);
+        const bucket = latencyBuckets.findIndex(bound => ms <= bound);
+        latency.buckets[bucket < 0 ? latencyBuckets.length : bucket]++;
+        changed.next();
+    };
+
+    // Snapshots are copies, so they don't change afterwards
+    const snapshot = (): WampMetrics => ({
+        ...metrics,
+        sent: { ...metrics.sent },
+        received: { ...metrics.received },
+        callLatency: Object.fromEntries(Object.entries(metrics.callLatency)
+            .map(([uri, latency]) => [uri, { ...latency, buckets: [...latency.buckets] }])),
+        errorsReceived: { ...metrics.errorsReceived },
+        errorsSent: { ...metrics.errorsSent }
+    });
+
+    return {
+        messageSent: (msgType, errorUri) => countMessage(metrics.sent, metrics.errorsSent, msgType, errorUri),
+        messageReceived: (msgType, errorUri) => countMessage(metrics.received, metrics.errorsReceived, msgType, errorUri),
+        add: (gauge, delta) => {
+            metrics[gauge] += delta;
+            changed.next();
+        },
+        callLatency,
+        metrics$: changed.pipe(
+            startWith(undefined),
+            map(snapshot))
+    };
+};
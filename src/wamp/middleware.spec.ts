@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { of, lastValueFrom, throwError, map, retry, tap, toArray } from 'rxjs';
+import { connectWampChannel, ArgsAndDict, WampChannel, WampError } from './wamp';
+import { toPromise } from './extras';
+import { createWampRouter } from './router';
+import { applyMiddleware, WampMiddleware } from './middleware';
+
+describe('middleware', () => {
+
+    const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const connect = async (...middlewares: WampMiddleware[]) => {
+        const router = createWampRouter();
+        const channel1 = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        const channel2 = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        return { channel1, channel2: applyMiddleware(channel2, ...middlewares), unwrapped: channel2 };
+    };
+
+    it('passes calls through the middlewares in order', async () => {
+        const order: string[] = [];
+        const trace = (name: string): WampMiddleware => ({
+            call: (request, next) => {
+                order.push(`${name} call`);
+                return next(request).pipe(tap(() => order.push(`${name} result`)));
+            }
+        });
+        const { channel1, channel2 } = await connect(trace('outer'), {}, trace('inner'));
+        await channel1.register('add', ([a, b]: any) => of([[a + b]]));
+
+        expect(await lastValueFrom(channel2.call('add', [1, 2]))).toEqual([[3]]);
+        expect(order).toEqual(['outer call', 'inner call', 'inner result', 'outer result']);
+    });
+
+    it('propagates trace context from caller to callee', async () => {
+        const { channel1, unwrapped } = await connect();
+        const caller = applyMiddleware(unwrapped, {
+            call: (request, next) => next({ ...request, kwargs: { ...request.kwargs, traceId: 'abc' } })
+        });
+        let traceId: string | undefined;
+        const callee = applyMiddleware(channel1, {
+            invocation: ({ kwargs: { traceId: id, ...kwargs } = {}, ...request }, next) => {
+                traceId = id;
+                return next({ ...request, kwargs });
+            }
+        });
+        const func = vi.fn(() => of<ArgsAndDict[]>([['done']]));
+        await callee.register('work', func);
+
+        expect(await lastValueFrom(caller.call('work', [1], { some: 'data' }))).toEqual([['done']]);
+        expect(traceId).toBe('abc');
+        expect(func).toHaveBeenCalledWith([1], { some: 'data' }, expect.objectContaining({ procedure: 'work' }));
+    });
+
+    it('modifies results and errors', async () => {
+        let attempts = 0;
+        const { channel1, channel2 } = await connect({
+            call: (request, next) => next(request).pipe(retry(2))
+        });
+        const callee = applyMiddleware(channel1, {
+            invocation: (request, next) => next(request).pipe(map(([args]) => [args!.map(it => it * 10)]))
+        });
+        await callee.register('flaky', () => ++attempts < 3 ? throwError(() => new WampError('app.flaky')) : of([[attempts]]));
+
+        expect(await lastValueFrom(channel2.call('flaky'))).toEqual([[30]]);
+        expect(attempts).toBe(3);
+    });
+
+    it('passes progressive calls through the call middlewares', async () => {
+        const { channel1, channel2 } = await connect({
+            call: (request, next) => next({ ...request, options: { ...request.options, disclose_me: true } })
+                .pipe(map(([args]) => [[...args!, 'seen']]))
+        });
+        let caller: number | undefined;
+        await channel1.register('count', (args, kwargs, details) => {
+            caller = details!.caller;
+            return details!.input$!.pipe(toArray(), map(inputs => [[inputs.length]]));
+        });
+
+        expect(await lastValueFrom(channel2.callProgressive('count', of<ArgsAndDict[]>([[1]], [[2]]))))
+            .toEqual([[2, 'seen']]);
+        expect(caller).toBe(channel2.session.id);
+    });
+
+    it('passes publications and events through', async () => {
+        const { channel1, channel2 } = await connect({
+            publish: (request, next) => next({ ...request, options: { ...request.options, exclude_me: false } })
+        });
+        const received: any[] = [];
+        const subscriber = applyMiddleware(channel1, {
+            subscribe: (request, next) => next(request).pipe(map(([args, kwargs, details]) => [[...args!, 'seen'], kwargs, details]))
+        });
+        subscriber.subscribe('topic').subscribe(([args]) => received.push(args));
+        channel2.subscribe('topic').subscribe(([args]) => received.push(args));
+        await handleQueuedEvents();
+
+        await channel2.publish('topic', ['hello']);
+        await handleQueuedEvents();
+        expect(received).toEqual([['hello', 'seen'], ['hello']]);
+    });
+
+    it('is applied by connectWampChannel', async () => {
+        const router = createWampRouter();
+        const published: string[] = [];
+        const audit: WampMiddleware = {
+            publish: (request, next) => {
+                published.push(request.uri);
+                return next(request);
+            }
+        };
+        const channel: WampChannel = await toPromise(
+            connectWampChannel('', 'realm1', undefined, router.connect, undefined, { middlewares: [audit] }));
+        await channel.publish('some.topic');
+        expect(published).toEqual(['some.topic']);
+    });
+});
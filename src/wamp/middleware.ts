@@ -0,0 +1,79 @@
+import { Observable } from 'rxjs';
+import { Args, ArgsAndDict, Dict, CallOptions, EventArgsAndDict, InvocationDetails, PublishOptions,
+    SubscribeOptions, WampChannel } from './wamp';
+
+// Middleware for cross-cutting concerns, like adding auth or tracing info, retries and audit
+// logging. Each hook gets the request and the next handler in the chain. It can modify the
+// request before passing it on, and modify what next() returns, like results and errors.
+
+// A progressive call has input$, which emits its payloads, instead of args and kwargs
+export interface CallRequest {
+    uri: string;
+    args?: Args;
+    kwargs?: Dict;
+    input$?: Observable<ArgsAndDict>;
+    options: CallOptions;
+}
+
+export interface PublishRequest {
+    uri: string;
+    args?: Args;
+    kwargs?: Dict;
+    options: PublishOptions;
+}
+
+// An invocation of a function registered at uri
+export interface InvocationRequest {
+    uri: string;
+    args?: Args;
+    kwargs?: Dict;
+    details: InvocationDetails;
+}
+
+export interface SubscribeRequest {
+    uri: string;
+    options: SubscribeOptions;
+}
+
+export type Next<R, T> = (request: R) => T;
+export type Hook<R, T> = (request: R, next: Next<R, T>) => T;
+
+export interface WampMiddleware {
+    // Outgoing calls, also progressive ones, and their results
+    call?: Hook<CallRequest, Observable<ArgsAndDict>>;
+    // Outgoing publications
+    publish?: Hook<PublishRequest, Promise<number>>;
+    // Incoming invocations of registered functions, and what they return
+    invocation?: Hook<InvocationRequest, Observable<ArgsAndDict>>;
+    // Subscriptions and their incoming events
+    subscribe?: Hook<SubscribeRequest, Observable<EventArgsAndDict>>;
+}
+
+// The first hook is the outermost one. So it sees requests first, and what they return last.
+const compose = <R, T>(hooks: (Hook<R, T> | undefined)[], handler: Next<R, T>): Next<R, T> =>
+    hooks.reduceRight<Next<R, T>>((next, hook) => hook ? request => hook(request, next) : next, handler);
+
+// Returns a channel which passes all operations through the middlewares, in order.
+export const applyMiddleware = (channel: WampChannel, ...middlewares: WampMiddleware[]): WampChannel => {
+    const call = compose(middlewares.map(it => it.call),
+        ({ uri, args, kwargs, input$, options }) => input$
+            ? channel.callProgressive(uri, input$, options)
+            : channel.call(uri, args, kwargs, options));
+    const publish = compose(middlewares.map(it => it.publish),
+        ({ uri, args, kwargs, options }) => channel.publish(uri, args, kwargs, options));
+    const subscribe = compose(middlewares.map(it => it.subscribe),
+        ({ uri, options }) => channel.subscribe(uri, options));
+
+    return {
+        ...channel,
+        call: (uri, args, kwargs, options = {}) => call({ uri, args, kwargs, options }),
+        callProgressive: (uri, input$, options = {}) => call({ uri, input$, options }),
+        register: (uri, func, options) => {
+            const invoke = compose(middlewares.map(it => it.invocation),
+                ({ args, kwargs, details }) => func(args, kwargs, details));
+            return channel.register(uri, (args, kwargs, details) => invoke({ uri, args, kwargs, details: details! }), options);
+        },
+        publish: (uri, args, kwargs, options = {}) => publish({ uri, args, kwargs, options }),
+        subscribe: (uri, options = {}) => subscribe({ uri, options })
+    };
+};
@@ -0,0 +1,167 @@
+import { ByteReader, ByteWriter, makeByteReader, makeByteWriter, textDecoder, textEncoder } from './bytes';
+
+// Minimal MessagePack codec, supporting everything that can appear in a WAMP message.
+// See https://github.com/msgpack/msgpack/blob/master/spec.md
+
+const encodeValue = (w: ByteWriter, value: any): void => {
+    if (value === null || value === undefined) {
+        w.uint8(0xc0);
+    } else if (value === false) {
+        w.uint8(0xc2);
+    } else if (value === true) {
+        w.uint8(0xc3);
+    } else if (typeof value === 'number') {
+        encodeNumber(w, value);
+    } else if (typeof value === 'string') {
+        const bytes = textEncoder.encode(value);
+        if (bytes.length < 32) {
+            w.uint8(0xa0 | bytes.length);
+        } else if (bytes.length <= 0xff) {
+            w.uint8(0xd9); w.uint8(bytes.length);
+        } else if (bytes.length <= 0xffff) {
+            w.uint8(0xda); w.uint16(bytes.length);
+        } else {
+            w.uint8(0xdb); w.uint32(bytes.length);
+        }
+        w.bytes(bytes);
+    } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+        const bytes = value instanceof Uint8Array ? value : new Uint8Array(value);
+        if (bytes.length <= 0xff) {
+            w.uint8(0xc4); w.uint8(bytes.length);
+        } else if (bytes.length <= 0xffff) {
+            w.uint8(0xc5); w.uint16(bytes.length);
+        } else {
+            w.uint8(0xc6); w.uint32(bytes.length);
+        }
+        w.bytes(bytes);
+    } else if (Array.isArray(value)) {
+        if (value.length < 16) {
+            w.uint8(0x90 | value.length);
+        } else if (value.length <= 0xffff) {
+            w.uint8(0xdc); w.uint16(value.length);
+        } else {
+            w.uint8(0xdd); w.uint32(value.length);
+        }
+        value.forEach(item => encodeValue(w, item));
+    } else if (typeof value === 'object') {
+        // Like JSON, leave out undefined properties
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+        if (entries.length < 16) {
+            w.uint8(0x80 | entries.length);
+        } else if (entries.length <= 0xffff) {
+            w.uint8(0xde); w.uint16(entries.length);
+        } else {
+            w.uint8(0xdf); w.uint32(entries.length);
+        }
+        entries.forEach(([key, item]) => {
+            encodeValue(w, key);
+            encodeValue(w, item);
+        });
+    } else {
+        throw new Error(`Cannot encode ${typeof value} to MessagePack`);
+    }
+};
+
+const encodeNumber = (w: ByteWriter, value: number) => {
+    if (!Number.isSafeInteger(value)) {
+        w.uint8(0xcb); w.float64(value);
+    } else if (value >= 0) {
+        if (value < 128) {
+            w.uint8(value);
+        } else if (value <= 0xff) {
+            w.uint8(0xcc); w.uint8(value);
+        } else if (value <= 0xffff) {
+            w.uint8(0xcd); w.uint16(value);
+        } else if (value <= 0xffffffff) {
+            w.uint8(0xce); w.uint32(value);
+        } else {
+            w.uint8(0xcf); w.uint64(value);
+        }
+    } else {
+        if (value >= -32) {
+            w.int8(value);
+        } else if (value >= -0x80) {
+            w.uint8(0xd0); w.int8(value);
+        } else if (value >= -0x8000) {
+            w.uint8(0xd1); w.int16(value);
+        } else if (value >= -0x80000000) {
+            w.uint8(0xd2); w.int32(value);
+        } else {
+            w.uint8(0xd3); w.int64(value);
+        }
+    }
+};
+
+const decodeArray = (r: ByteReader, length: number) =>
+    Array.from({ length }, () => decodeValue(r));
+
+const decodeMap = (r: ByteReader, length: number) => {
+    const map: {[key: string]: any} = {};
+    for (let i = 0; i < length; ++i) {
+        const key = decodeValue(r);
+        map[key] = decodeValue(r);
+    }
+    return map;
+};
+
+const decodeString = (r: ByteReader, length: number) => textDecoder.decode(r.bytes(length));
+
+const decodeValue = (r: ByteReader): any => {
+    const type = r.uint8();
+    if (type < 0x80) {
+        return type;
+    }
+    if (type < 0x90) {
+        return decodeMap(r, type & 0x0f);
+    }
+    if (type < 0xa0) {
+        return decodeArray(r, type & 0x0f);
+    }
+    if (type < 0xc0) {
+        return decodeString(r, type & 0x1f);
+    }
+    if (type >= 0xe0) {
+        return type - 0x100;
+    }
+    switch (type) {
+        case 0xc0: return null;
+        case 0xc2: return false;
+        case 0xc3: return true;
+        case 0xc4: return r.bytes(r.uint8());
+        case 0xc5: return r.bytes(r.uint16());
+        case 0xc6: return r.bytes(r.uint32());
+        case 0xca: return r.float32();
+        case 0xcb: return r.float64();
+        case 0xcc: return r.uint8();
+        case 0xcd: return r.uint16();
+        case 0xce: return r.uint32();
+        case 0xcf: return r.uint64();
+        case 0xd0: return r.int8();
+        case 0xd1: return r.int16();
+        case 0xd2: return r.int32();
+        case 0xd3: return r.int64();
+        case 0xd9: return decodeString(r, r.uint8());
+        case 0xda: return decodeString(r, r.uint16());
+        case 0xdb: return decodeString(r, r.uint32());
+        case 0xdc: return decodeArray(r, r.uint16());
+        case 0xdd: return decodeArray(r, r.uint32());
+        case 0xde: return decodeMap(r, r.uint16());
+        case 0xdf: return decodeMap(r, r.uint32());
+    }
+    throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+};
+
+export const encodeMsgpack = (value: any): Uint8Array => {
+    const w = makeByteWriter();
+    encodeValue(w, value);
+    return w.result();
+};
+
+export const decodeMsgpack = (data: Uint8Array): any => {
+    const r = makeByteReader(data);
+    const value = decodeValue(r);
+    if (!r.done()) {
+        throw new Error('Unexpected data after MessagePack value');
+    }
+    return value;
+};
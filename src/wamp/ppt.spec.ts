@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { of, lastValueFrom, firstValueFrom } from 'rxjs';
+import { connectWampChannel, CallOptions, WampError, WampMessageEnum } from './wamp';
+import { toPromise } from './extras';
+import { createWampRouter } from './router';
+import { createFakeRouter } from './testing';
+import { createKeyring, PptKeyring } from './ppt';
+import { cborSerializer } from './serializers';
+import nacl from 'tweetnacl';
+
+describe('payload passthru mode', () => {
+
+    const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const key1 = new Uint8Array(32).fill(1);
+    const key2 = new Uint8Array(32).fill(2);
+    const e2ee: CallOptions = { ppt_scheme: 'wamp', ppt_serializer: 'cbor', ppt_cipher: 'xsalsa20poly1305', ppt_keyid: 'k1' };
+
+    const connect = async (callerKeyring: PptKeyring, calleeKeyring: PptKeyring) => {
+        const router = createWampRouter();
+        const caller = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect, undefined, { keyring: callerKeyring }));
+        const callee = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect, undefined, { keyring: calleeKeyring }));
+        return { caller, callee };
+    };
+
+    it('encrypts the payload as the nonce followed by the NaCl secretbox', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect, undefined,
+            { keyring: createKeyring({ k1: key1 }) }));
+        channel.call('com.app.secret', ['password'], { user: 'joe' }, e2ee).subscribe();
+        const [[,,,, [sealed]]] = router.expectSent([WampMessageEnum.CALL, expect.any(Number), expect.any(Object), 'com.app.secret',
+            [expect.any(Uint8Array)]]);
+
+        const opened = nacl.secretbox.open(sealed.subarray(24), sealed.subarray(0, 24), key1);
+        expect(opened).not.toBeNull();
+        expect(cborSerializer.deserialize(opened!)).toEqual({ uri: 'com.app.secret', args: ['password'], kwargs: { user: 'joe' } });
+        expect(nacl.secretbox.open(sealed.subarray(24), sealed.subarray(0, 24), key2)).toBeNull();
+    });
+
+    it('sends the encrypted payload as the only argument', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect, undefined,
+            { keyring: createKeyring({ k1: key1 }) }));
+        channel.call('com.app.secret', ['password'], { user: 'joe' }, e2ee).subscribe();
+        router.expectSent([WampMessageEnum.CALL, expect.any(Number), { receive_progress: true, ...e2ee }, 'com.app.secret',
+            [expect.any(Uint8Array)]]);
+    });
+
+    it('calls with an encrypted payload end-to-end', async () => {
+        const keyring = createKeyring({ k1: key1 });
+        const { caller, callee } = await connect(keyring, keyring);
+        let received: any[] = [];
+        await callee.register('com.app.secret', (args, kwargs, details) => {
+            received = [args, kwargs, details!.ppt_keyid];
+            return of([['ok'], { bytes: new Uint8Array([1, 2]) }]);
+        });
+
+        expect(await lastValueFrom(caller.call('com.app.secret', ['password'], { user: 'joe' }, e2ee)))
+            .toEqual([['ok'], { bytes: new Uint8Array([1, 2]) }]);
+        expect(received).toEqual([['password'], { user: 'joe' }, 'k1']);
+    });
+
+    it('rejects an encrypted payload the router passes on to another procedure', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect, undefined,
+            { keyring: createKeyring({ k1: key1 }) }));
+        channel.call('com.app.public', ['hello'], undefined, e2ee).subscribe();
+        const [[,,,, sealed]] = router.expectSent([WampMessageEnum.CALL, expect.any(Number), expect.any(Object), 'com.app.public',
+            [expect.any(Uint8Array)]]);
+
+        const registered = channel.register('com.app.secret', () => of([['ok']]));
+        const [[, registerReqId]] = router.expectSent([WampMessageEnum.REGISTER, expect.any(Number), expect.any(Object), 'com.app.secret']);
+        router.receive([WampMessageEnum.REGISTERED, registerReqId, 5]);
+        await registered;
+        router.receive([WampMessageEnum.INVOCATION, 1, 5, e2ee, sealed]);
+        router.expectSent([WampMessageEnum.ERROR, WampMessageEnum.INVOCATION, 1, {}, 'wamp.error.invalid_payload',
+            ['Payload is for com.app.public, not com.app.secret']]);
+    });
+
+    it('serializes a payload without encrypting it', async () => {
+        const keyring = createKeyring({});
+        const { caller, callee } = await connect(keyring, keyring);
+        await callee.register('com.app.add', ([a, b]: any) => of([[a + b]]));
+        expect(await lastValueFrom(caller.call('com.app.add', [1, 2], undefined, { ppt_scheme: 'wamp', ppt_serializer: 'json' })))
+            .toEqual([[3], undefined]);
+    });
+
+    it('errors clearly when the keys do not match', async () => {
+        const { caller, callee } = await connect(createKeyring({ k1: key1 }), createKeyring({ k1: key2 }));
+        await callee.register('com.app.secret', () => of([['ok']]));
+
+        await expect(lastValueFrom(caller.call('com.app.secret', ['password'], {}, e2ee)))
+            .rejects.toEqual(new WampError('wamp.error.invalid_payload', ['Could not decrypt payload with ppt_keyid k1']));
+        await expect(lastValueFrom(caller.call('com.app.secret', ['password'], {}, { ...e2ee, ppt_keyid: 'k2' })))
+            .rejects.toEqual(new WampError('wamp.error.invalid_payload', ['Unknown ppt_keyid k2']));
+    });
+
+    it('rejects unencrypted invocations of a registration requiring encryption', async () => {
+        const keyring = createKeyring({ k1: key1 });
+        const { caller, callee } = await connect(keyring, keyring);
+        await callee.register('com.app.secret', () => of([['ok']]), e2ee);
+
+        await expect(lastValueFrom(caller.call('com.app.secret', ['password'])))
+            .rejects.toEqual(new WampError('wamp.error.invalid_payload', ['Expected a payload with ppt_scheme wamp']));
+        expect(await lastValueFrom(caller.call('com.app.secret', ['password'], {}, e2ee))).toEqual([['ok'], undefined]);
+    });
+
+    it('publishes encrypted events and rejects unencrypted ones', async () => {
+        const keyring = createKeyring({ k1: key1 });
+        const { caller: publisher, callee: subscriber } = await connect(keyring, keyring);
+        const errors: any[] = [];
+        subscriber.backgroundError$.subscribe(e => errors.push(e));
+        const event = firstValueFrom(subscriber.subscribe('com.app.news', e2ee));
+        await handleQueuedEvents();
+
+        await publisher.publish('com.app.news', ['fake']);
+        await publisher.publish('com.app.news', ['real'], { id: 1 }, e2ee);
+        const [args, kwargs, details] = await event;
+        expect([args, kwargs, details.publication]).toEqual([['real'], { id: 1 }, expect.any(Number)]);
+        expect(errors).toEqual([new WampError('wamp.error.invalid_payload', ['Expected a payload with ppt_scheme wamp'])]);
+    });
+});
@@ -0,0 +1,157 @@
+import { ArgsAndDict, Dict, WampError } from './wamp';
+import { WampSerializer, jsonSerializer, msgpackSerializer, cborSerializer } from './serializers';
+import { textEncoder, toUint8Array } from './bytes';
+import nacl from 'tweetnacl';
+
+// Payload passthru mode. The args and kwargs of a call, result, invocation or event are
+// serialized into a single payload, which the router passes on without looking into it.
+// With a cipher, the payload is encrypted end-to-end, so the router can't read it either.
+
+export interface PayloadPassthruOptions {
+    // 'wamp' for payloads encoded by wamprx.js (or another WAMP client), or an application
+    // specific scheme.
+    ppt_scheme?: string;
+    // 'json', 'msgpack' or 'cbor'. 'native' (the default) means args and kwargs are sent as-is.
+    ppt_serializer?: string;
+    // 'xsalsa20poly1305' (NaCl secretbox) to encrypt the payload with the key ppt_keyid
+    ppt_cipher?: string;
+    ppt_keyid?: string;
+}
+
+// Holds the keys to encrypt and decrypt payloads with
+export interface PptKeyring {
+    // The key with this id, or undefined when it is unknown
+    key(keyid: string): Uint8Array | undefined;
+}
+
+// A keyring of fixed keys. Keys of xsalsa20poly1305 are 32 bytes.
+export const createKeyring = (keys: {[keyid: string]: Uint8Array}): PptKeyring => ({
+    key: keyid => keys[keyid]
+});
+
+interface PptCipher {
+    encrypt(plaintext: Uint8Array, key: Uint8Array): Uint8Array;
+    // Returns undefined when the ciphertext was not encrypted with this key
+    decrypt(ciphertext: Uint8Array, key: Uint8Array): Uint8Array | undefined;
+}
+
+const nonceLength = nacl.secretbox.nonceLength;
+
+const ciphers: {[name: string]: PptCipher} = {
+    // The payload is the random nonce followed by the secretbox
+    xsalsa20poly1305: {
+        encrypt: (plaintext, key) => {
+            const nonce = nacl.randomBytes(nonceLength);
+            const box = nacl.secretbox(plaintext, nonce, key);
+            const payload = new Uint8Array(nonceLength + box.length);
+            payload.set(nonce);
+            payload.set(box, nonceLength);
+            return payload;
+        },
+        decrypt: (ciphertext, key) => ciphertext.length < nonceLength ? undefined :
+            nacl.secretbox.open(ciphertext.subarray(nonceLength), ciphertext.subarray(0, nonceLength), key) ?? undefined
+    }
+};
+
+const serializers: {[name: string]: WampSerializer} = {
+    json: jsonSerializer,
+    msgpack: msgpackSerializer,
+    cbor: cborSerializer
+};
+
+const invalidPayload = (message: string) => new WampError('wamp.error.invalid_payload', [message]);
+
+// The payload passthru mode options of a message, e.g. to add to its details
+export const pptOptions = (options: PayloadPassthruOptions): PayloadPassthruOptions =>
+    Object.fromEntries(Object.entries(options).filter(([key]) => key.startsWith('ppt_')));
+
+// Options without the payload passthru mode ones
+export const withoutPptOptions = <T extends Dict>(options: T): T =>
+    Object.fromEntries(Object.entries(options).filter(([key]) => !key.startsWith('ppt_'))) as T;
+
+const getSerializer = (name: string) => {
+    const serializer = serializers[name];
+    if (!serializer) {
+        throw invalidPayload(`Unsupported ppt_serializer ${name}`);
+    }
+    return serializer;
+};
+
+const getKey = (options: PayloadPassthruOptions, keyring?: PptKeyring) => {
+    const { ppt_cipher, ppt_keyid } = options;
+    const cipher = ciphers[ppt_cipher!];
+    if (!cipher) {
+        throw invalidPayload(`Unsupported ppt_cipher ${ppt_cipher}`);
+    }
+    if (ppt_keyid === undefined) {
+        throw invalidPayload(`ppt_cipher ${ppt_cipher} requires a ppt_keyid`);
+    }
+    const key = keyring?.key(ppt_keyid);
+    if (!key) {
+        throw invalidPayload(`Unknown ppt_keyid ${ppt_keyid}`);
+    }
+    return { cipher, key };
+};
+
+// Encodes args and kwargs of a message to uri according to the options. Throws a WampError with
+// 'wamp.error.invalid_payload' when that is not possible. A message without payload stays empty.
+// An encrypted payload also holds the uri, so the router can't pass it on to another procedure or topic.
+export const encodePayload = (options: PayloadPassthruOptions, uri: string, [args, kwargs]: ArgsAndDict,
+    keyring?: PptKeyring): ArgsAndDict => {
+    const { ppt_scheme, ppt_serializer = 'native', ppt_cipher } = options;
+    if (!ppt_scheme || (!args && !kwargs) || (ppt_serializer === 'native' && !ppt_cipher)) {
+        return [args, kwargs];
+    }
+    if (ppt_serializer === 'native') {
+        throw invalidPayload(`ppt_cipher ${ppt_cipher} requires a ppt_serializer`);
+    }
+    const serializer = getSerializer(ppt_serializer);
+    if (!ppt_cipher) {
+        return [[serializer.serialize({ args, kwargs })]];
+    }
+    const { cipher, key } = getKey(options, keyring);
+    const serialized = serializer.serialize({ uri, args, kwargs });
+    return [[cipher.encrypt(typeof serialized === 'string' ? textEncoder.encode(serialized) : serialized, key)]];
+};
+
+// Decodes the payload of a message to uri with these details. Throws a WampError with
+// 'wamp.error.invalid_payload' when that is not possible, when the details don't match
+// the given ppt options the payload is required to have, or when an encrypted payload was for another uri.
+export const decodePayload = (details: PayloadPassthruOptions, uri: string, payload: ArgsAndDict, keyring?: PptKeyring,
+    required: PayloadPassthruOptions = {}): ArgsAndDict => {
+    const mismatch = Object.entries(pptOptions(required))
+        .find(([key, value]) => (details as Dict)[key] !== value);
+    if (mismatch) {
+        throw invalidPayload(`Expected a payload with ${mismatch[0]} ${mismatch[1]}`);
+    }
+    const { ppt_scheme, ppt_serializer = 'native', ppt_cipher, ppt_keyid } = details;
+    const [args, kwargs] = payload;
+    if (!ppt_scheme || (!args && !kwargs) || (ppt_serializer === 'native' && !ppt_cipher)) {
+        return payload;
+    }
+    if (!args || args.length !== 1 || kwargs) {
+        throw invalidPayload('Expected a single payload argument');
+    }
+    let data = args[0];
+    if (ppt_cipher) {
+        const { cipher, key } = getKey(details, keyring);
+        const decrypted = data instanceof Uint8Array || data instanceof ArrayBuffer
+            ? cipher.decrypt(toUint8Array(data), key)
+            : undefined;
+        if (!decrypted) {
+            throw invalidPayload(`Could not decrypt payload with ppt_keyid ${ppt_keyid}`);
+        }
+        data = decrypted;
+    }
+    const serializer = getSerializer(ppt_serializer);
+    let decoded: any;
+    try {
+        decoded = serializer.deserialize(data);
+    } catch (e: any) {
+        throw invalidPayload(`Could not deserialize payload: ${e.message}`);
+    }
+    if (ppt_cipher && decoded?.uri !== uri) {
+        throw invalidPayload(`Payload is for ${decoded?.uri}, not ${uri}`);
+    }
+    return [decoded?.args, decoded?.kwargs];
+};
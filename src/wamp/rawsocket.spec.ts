@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WampChannel, WampWebSocket, connectWampChannel } from './wamp';
+import { jsonSerializer, msgpackSerializer } from './serializers';
+import { makeObservableRawSocket, RawSocketError, RawSocketErrorCode } from './rawsocket';
+
+describe('rawsocket', () => {
+
+    const makeFakeSocket = () => {
+        const listeners: {[event: string]: (...args: any[]) => void} = {};
+        return {
+            on: (event: string, listener: (...args: any[]) => void) => { listeners[event] = listener; },
+            write: vi.fn(),
+            destroy: vi.fn(),
+            emit: (event: string, ...args: any[]) => listeners[event](...args)
+        };
+    };
+
+    const bytes = (...values: number[]) => new Uint8Array(values);
+    const frame = (type: number, payload: string) => {
+        const encoded = new TextEncoder().encode(payload);
+        return new Uint8Array([type, 0, 0, encoded.length, ...encoded]);
+    };
+
+    const connect = (protocols: string[] = ['wamp.2.json'], options = {}) => {
+        const sockets: ReturnType<typeof makeFakeSocket>[] = [];
+        const makeSocket = vi.fn(() => {
+            const socket = makeFakeSocket();
+            sockets.push(socket);
+            return socket;
+        });
+        let ws: WampWebSocket | undefined;
+        let error: any;
+        const subscription = makeObservableRawSocket(makeSocket, options)('tcp://localhost:8080', protocols[0], protocols)
+            .subscribe({ next: it => ws = it, error: e => error = e });
+        return { sockets, makeSocket, subscription, getWs: () => ws, getError: () => error };
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('sends the handshake once connected', () => {
+        const { sockets, makeSocket } = connect(['wamp.2.msgpack'], { maxLengthExponent: 4 });
+        expect(makeSocket).toHaveBeenCalledWith('tcp://localhost:8080');
+        expect(sockets[0].write).not.toHaveBeenCalled();
+        sockets[0].emit('connect');
+        expect(sockets[0].write).toHaveBeenCalledWith(bytes(0x7f, 0x42, 0, 0));
+    });
+
+    it('frames sent and received messages', () => {
+        const { sockets, getWs } = connect();
+        const socket = sockets[0];
+        socket.emit('connect');
+        socket.emit('data', bytes(0x7f, 0xf1, 0, 0));
+
+        const ws = getWs()!;
+        expect(ws.protocol).toBe('wamp.2.json');
+        ws.send('[1]');
+        expect(socket.write).toHaveBeenLastCalledWith(frame(0, '[1]'));
+
+        const received: string[] = [];
+        ws.receive$.subscribe(data => received.push(new TextDecoder().decode(data as Uint8Array)));
+        // Two frames in one chunk, and one frame split over two chunks
+        const third = frame(0, '[3]');
+        socket.emit('data', new Uint8Array([...frame(0, '[1]'), ...frame(0, '[2]'), ...third.subarray(0, 5)]));
+        socket.emit('data', third.subarray(5));
+        expect(received).toEqual(['[1]', '[2]', '[3]']);
+    });
+
+    it('answers a ping with a pong', () => {
+        const { sockets } = connect();
+        const socket = sockets[0];
+        socket.emit('connect');
+        socket.emit('data', new Uint8Array([0x7f, 0xf1, 0, 0, ...frame(1, 'ping!')]));
+        expect(socket.write).toHaveBeenLastCalledWith(frame(2, 'ping!'));
+    });
+
+    it('pings the router and disconnects when it does not answer', () => {
+        vi.useFakeTimers();
+        const { sockets, getError } = connect(['wamp.2.json'], { pingInterval: 1000 });
+        const socket = sockets[0];
+        socket.emit('connect');
+        socket.emit('data', bytes(0x7f, 0xf1, 0, 0));
+
+        vi.advanceTimersByTime(1000);
+        expect(socket.write).toHaveBeenLastCalledWith(bytes(1, 0, 0, 0));
+        socket.emit('data', bytes(2, 0, 0, 0));
+        vi.advanceTimersByTime(1000);
+        expect(getError()).toBeUndefined();
+        vi.advanceTimersByTime(1000);
+        expect(getError()).toEqual(new Error('RawSocket ping timeout'));
+        expect(socket.destroy).toHaveBeenCalled();
+    });
+
+    it('refuses to send a message the router does not accept', () => {
+        const { sockets, getWs } = connect();
+        sockets[0].emit('connect');
+        sockets[0].emit('data', bytes(0x7f, 0x01, 0, 0)); // Router accepts 512 bytes max
+        expect(() => getWs()!.send('x'.repeat(513)))
+            .toThrow('Message of 513 bytes exceeds the maximum length of 512 bytes');
+    });
+
+    it('refuses to send a message which does not fit the length header', () => {
+        const { sockets, getWs } = connect();
+        sockets[0].emit('connect');
+        sockets[0].emit('data', bytes(0x7f, 0xf1, 0, 0)); // Router accepts 2^24 bytes
+        expect(() => getWs()!.send(new Uint8Array(2 ** 24)))
+            .toThrow('Message of 16777216 bytes exceeds the maximum length of 16777215 bytes');
+        expect(sockets[0].write).toHaveBeenCalledTimes(1);
+    });
+
+    it('disconnects when the router sends a message longer than announced', () => {
+        const { sockets, getError } = connect(['wamp.2.json'], { maxLengthExponent: 0 });
+        const socket = sockets[0];
+        socket.emit('connect');
+        socket.emit('data', bytes(0x7f, 0xf1, 0, 0, 0, 0, 2, 1));
+        expect(getError()).toEqual(new Error('Received message of 513 bytes exceeds the maximum length of 512 bytes'));
+        expect(socket.destroy).toHaveBeenCalled();
+    });
+
+    it('falls back to the next serializer when the router does not support it', () => {
+        const { sockets, getWs } = connect(['wamp.2.cbor', 'wamp.2.json']);
+        sockets[0].emit('connect');
+        sockets[0].emit('data', bytes(0x7f, 0x10, 0, 0));
+        expect(sockets[0].destroy).toHaveBeenCalled();
+
+        expect(sockets.length).toBe(2);
+        sockets[1].emit('connect');
+        expect(sockets[1].write).toHaveBeenCalledWith(bytes(0x7f, 0xf1, 0, 0));
+        sockets[1].emit('data', bytes(0x7f, 0xf1, 0, 0));
+        expect(getWs()!.protocol).toBe('wamp.2.json');
+    });
+
+    it('fails when the router refuses the connection', () => {
+        const { sockets, getError } = connect();
+        sockets[0].emit('connect');
+        sockets[0].emit('data', bytes(0x7f, 0x40, 0, 0));
+        expect(getError()).toEqual(expect.any(RawSocketError));
+        expect(getError().code).toBe(RawSocketErrorCode.MAX_CONNECTION_COUNT_REACHED);
+    });
+
+    it('fails when the socket closes', () => {
+        const { sockets, getWs, getError } = connect();
+        sockets[0].emit('connect');
+        sockets[0].emit('data', bytes(0x7f, 0xf1, 0, 0));
+        let receiveError: any;
+        let transportErroredFirst = false;
+        getWs()!.receive$.subscribe({ error: e => {
+            receiveError = e;
+            transportErroredFirst = !!getError();
+        }});
+
+        sockets[0].emit('close');
+        expect(getError()).toEqual(new Error('RawSocket disconnected'));
+        expect(receiveError).toEqual(new Error('RawSocket disconnected'));
+        // So a reconnecting channel knows the channel is lost before its subscriptions error
+        expect(transportErroredFirst).toBe(true);
+    });
+
+    it('connects a WAMP channel', async () => {
+        const socket = makeFakeSocket();
+        let channel: WampChannel | undefined;
+        connectWampChannel('tcp://localhost:8080', 'realm1', undefined, makeObservableRawSocket(() => socket),
+            undefined, { serializers: [msgpackSerializer, jsonSerializer] })
+            .subscribe(it => channel = it);
+        socket.emit('connect');
+        socket.emit('data', bytes(0x7f, 0xf2, 0, 0));
+        await Promise.resolve();
+        expect(socket.write).toHaveBeenCalledTimes(2); // Handshake and HELLO
+
+        const welcome = msgpackSerializer.serialize([2, 123, {}]) as Uint8Array;
+        socket.emit('data', new Uint8Array([0, 0, 0, welcome.length, ...welcome]));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(channel!.session.id).toBe(123);
+    });
+});
@@ -0,0 +1,200 @@
+import { Observable, Subject, catchError, throwError } from 'rxjs';
+import { MakeObservableWebSocket, WampWebSocket } from './wamp';
+import { WampData } from './serializers';
+import { textEncoder, toUint8Array } from './bytes';
+
+// WAMP RawSocket transport, for use over TCP or Unix domain sockets in Node.js.
+// See https://wamp-proto.org/wamp_latest_ietf.html#name-rawsocket-transport
+
+// Minimal stream socket interface needed for makeObservableRawSocket()
+// It fits the net.Socket type from Node.js.
+export interface IStreamSocket {
+    on(event: string, listener: (...args: any[]) => void): unknown;
+    write(data: Uint8Array): unknown;
+    destroy(): unknown;
+}
+
+export type MakeStreamSocket = (url: string) => IStreamSocket;
+
+export interface RawSocketOptions {
+    // The maximum message length the router may send is 2^(9 + maxLengthExponent) bytes.
+    // Between 0 and 15, defaults to 15 (16 MB).
+    maxLengthExponent?: number;
+    // When set, pings the router every pingInterval ms. When the previous ping was not
+    // answered by then, the connection is considered lost.
+    pingInterval?: number;
+}
+
+const serializerIds: {[protocol: string]: number} = {
+    'wamp.2.json': 1,
+    'wamp.2.msgpack': 2,
+    'wamp.2.cbor': 3
+};
+
+const MAGIC = 0x7f;
+
+enum FrameType {
+    REGULAR = 0,
+    PING = 1,
+    PONG = 2
+};
+
+export enum RawSocketErrorCode {
+    SERIALIZER_UNSUPPORTED = 1,
+    MAX_LENGTH_UNACCEPTABLE = 2,
+    RESERVED_BITS_USED = 3,
+    MAX_CONNECTION_COUNT_REACHED = 4
+};
+
+// Thrown when the router refuses the RawSocket handshake
+export class RawSocketError extends Error {
+    constructor(public readonly code: number) {
+        super(`Router refused RawSocket connection: ${RawSocketErrorCode[code] || `error ${code}`}`);
+        this.name = 'RawSocketError';
+    }
+}
+
+// The maximum message length for a length exponent. The length header has 3 bytes,
+// so 2^24 itself doesn't fit.
+const maxLength = (lengthExponent: number) => Math.min(2 ** (9 + lengthExponent), 2 ** 24 - 1);
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
+};
+
+const connectRawSocket = (makeSocket: MakeStreamSocket, url: string, protocol: string, options: RawSocketOptions) =>
+    new Observable<WampWebSocket>(observer => {
+        const { maxLengthExponent = 15, pingInterval } = options;
+        const socket = makeSocket(url);
+        const receive$ = new Subject<WampData>();
+        let buffer = new Uint8Array(0);
+        const clientMaxLength = maxLength(maxLengthExponent);
+        // Unknown until the handshake completes
+        let routerMaxLength = 0;
+        let awaitingPong = false;
+        let pingTimer: ReturnType<typeof setInterval> | undefined;
+
+        // The transport errors before receive$ does, so a channel using it is known to be
+        // lost before anything on it errors.
+        const fail = (e: any) => {
+            observer.error(e);
+            receive$.error(e);
+        };
+
+        const sendFrame = (type: FrameType, payload: Uint8Array) => {
+            if (payload.length > routerMaxLength) {
+                throw new Error(`Message of ${payload.length} bytes exceeds the maximum length of ${routerMaxLength} bytes`);
+            }
+            const frame = new Uint8Array(4 + payload.length);
+            frame[0] = type;
+            frame[1] = payload.length >> 16;
+            frame[2] = payload.length >> 8 & 0xff;
+            frame[3] = payload.length & 0xff;
+            frame.set(payload, 4);
+            socket.write(frame);
+        };
+
+        const handshakeReceived = (reply: Uint8Array) => {
+            const serializerId = reply[1] & 0x0f;
+            if (reply[0] !== MAGIC) {
+                throw new Error('Invalid RawSocket handshake reply');
+            }
+            if (serializerId === 0) {
+                throw new RawSocketError(reply[1] >> 4);
+            }
+            if (serializerId !== serializerIds[protocol]) {
+                throw new Error(`Router replied with unrequested serializer ${serializerId}`);
+            }
+            routerMaxLength = maxLength(reply[1] >> 4);
+            if (pingInterval) {
+                pingTimer = setInterval(() => {
+                    if (awaitingPong) {
+                        fail(new Error('RawSocket ping timeout'));
+                        return;
+                    }
+                    awaitingPong = true;
+                    sendFrame(FrameType.PING, new Uint8Array(0));
+                }, pingInterval);
+            }
+            observer.next({
+                send: data => sendFrame(FrameType.REGULAR, typeof data === 'string' ? textEncoder.encode(data) : toUint8Array(data)),
+                receive$,
+                protocol
+            });
+        };
+
+        const frameReceived = (header: number, payload: Uint8Array) => {
+            if (header & 0xf8) {
+                throw new Error('RawSocket frame uses reserved bits');
+            }
+            switch (header) {
+                case FrameType.REGULAR:
+                    receive$.next(payload);
+                    break;
+                case FrameType.PING:
+                    sendFrame(FrameType.PONG, payload);
+                    break;
+                case FrameType.PONG:
+                    awaitingPong = false;
+                    break;
+                default:
+                    throw new Error(`Unknown RawSocket frame type ${header}`);
+            }
+        };
+
+        socket.on('connect', () =>
+            socket.write(new Uint8Array([MAGIC, maxLengthExponent << 4 | serializerIds[protocol], 0, 0])));
+        socket.on('data', (data: Uint8Array) => {
+            try {
+                buffer = concatBytes(buffer, data);
+                if (!routerMaxLength) {
+                    if (buffer.length < 4) {
+                        return;
+                    }
+                    handshakeReceived(buffer.subarray(0, 4));
+                    buffer = buffer.subarray(4);
+                }
+                while (buffer.length >= 4) {
+                    const length = buffer[1] << 16 | buffer[2] << 8 | buffer[3];
+                    if (length > clientMaxLength) {
+                        throw new Error(`Received message of ${length} bytes exceeds the maximum length of ${clientMaxLength} bytes`);
+                    }
+                    if (buffer.length < 4 + length) {
+                        break;
+                    }
+                    const header = buffer[0];
+                    const payload = buffer.slice(4, 4 + length);
+                    buffer = buffer.subarray(4 + length);
+                    frameReceived(header, payload);
+                }
+            } catch (e) {
+                fail(e);
+            }
+        });
+        socket.on('close', () => fail(new Error('RawSocket disconnected')));
+        socket.on('error', fail);
+
+        return () => {
+            clearInterval(pingTimer);
+            socket.destroy();
+        };
+    });
+
+// Creates a transport which fits in connectWampChannel() like makeObservableWebSocket() does.
+// The url is only passed to makeSocket. When the router doesn't support the first of the
+// offered serializers, it reconnects with the next one.
+export const makeObservableRawSocket = (makeSocket: MakeStreamSocket, options: RawSocketOptions = {}): MakeObservableWebSocket => (url, protocol, protocols = [protocol]) => {
+    const supported = protocols.filter(it => serializerIds[it]);
+    if (supported.length === 0) {
+        return throwError(() => new Error(`None of the serializers ${protocols} is supported by RawSocket`));
+    }
+    const connect = (index: number): Observable<WampWebSocket> =>
+        connectRawSocket(makeSocket, url, supported[index], options).pipe(
+            catchError(e => e instanceof RawSocketError && e.code === RawSocketErrorCode.SERIALIZER_UNSUPPORTED && index + 1 < supported.length
+                ? connect(index + 1)
+                : throwError(() => e)));
+    return connect(0);
+};
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Observable, Subject, Subscription, NEVER, defer, throwError } from 'rxjs';
+import { WampChannel, EventArgsAndDict, WampMessageEnum, WampError, WampProtocolViolationError, connectWampChannel } from './wamp';
+import { makeObservableRawSocket } from './rawsocket';
+import { createFakeRouter, FakeRouter } from './testing';
+import { createReconnectingChannel, ConnectionLostError, OutboxFullError, OutboxExpiredError } from './reconnect';
+
+describe('reconnect', () => {
+
+    const makeFakeChannel = (id: number) => ({
+        session: { id, roles: {} },
+        call: vi.fn().mockReturnValue(NEVER),
+        callProgressive: vi.fn().mockReturnValue(NEVER),
+        register: vi.fn().mockResolvedValue(new Subscription()),
+        publish: vi.fn().mockResolvedValue(1234),
+        subscribe: vi.fn().mockReturnValue(NEVER),
+        close: vi.fn().mockResolvedValue(undefined),
+        closed$: NEVER,
+        metrics$: NEVER,
+        backgroundError$: NEVER
+    });
+
+    let connections: Subject<WampChannel>[];
+    let channel$: Observable<WampChannel>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        connections = [];
+        channel$ = defer(() => {
+            const connection = new Subject<WampChannel>();
+            connections.push(connection);
+            return connection;
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('connects right away and forwards calls to the current channel', async () => {
+        const channel = createReconnectingChannel(channel$);
+        expect(connections.length).toBe(1);
+        expect(channel.session).toBeUndefined();
+
+        const fake = makeFakeChannel(1);
+        connections[0].next(fake);
+        expect(channel.session).toEqual({ id: 1, roles: {} });
+
+        channel.call('thing', ['arg']).subscribe();
+        expect(fake.call).toHaveBeenCalledWith('thing', ['arg'], undefined, undefined);
+        expect(await channel.publish('some.topic', ['hello'])).toBe(1234);
+    });
+
+    it('waits for a channel before calling', () => {
+        const channel = createReconnectingChannel(channel$);
+        channel.call('thing').subscribe();
+
+        const fake = makeFakeChannel(1);
+        connections[0].next(fake);
+        expect(fake.call).toHaveBeenCalledWith('thing', undefined, undefined, undefined);
+    });
+
+    it('reconnects with backoff', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100, factor: 2, maxDelay: 300 });
+        connections[0].error(new Error('Websocket disconnected'));
+        expect(connections.length).toBe(1);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(connections.length).toBe(2);
+
+        connections[1].error(new Error('Websocket disconnected'));
+        await vi.advanceTimersByTimeAsync(199);
+        expect(connections.length).toBe(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(connections.length).toBe(3);
+
+        connections[2].error(new Error('Websocket disconnected'));
+        await vi.advanceTimersByTimeAsync(300);
+        expect(connections.length).toBe(4);
+
+        // A successful connection resets the backoff
+        connections[3].next(makeFakeChannel(4));
+        connections[3].error(new Error('Websocket disconnected'));
+        expect(channel.session).toBeUndefined();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(connections.length).toBe(5);
+    });
+
+    it('gives up after the max number of retries', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100, maxRetries: 1 });
+        let error: any;
+        channel.closed$.subscribe({ error: e => error = e });
+
+        connections[0].error(new Error('first'));
+        await vi.advanceTimersByTimeAsync(100);
+        connections[1].error(new Error('second'));
+        expect(error).toEqual(new Error('second'));
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(connections.length).toBe(2);
+    });
+
+    it('fails a call when the connection is lost', () => {
+        const channel = createReconnectingChannel(channel$);
+        connections[0].next(makeFakeChannel(1));
+
+        let error: any;
+        channel.call('thing').subscribe({ error: e => error = e });
+        connections[0].error(new Error('Websocket disconnected'));
+        expect(error).toEqual(expect.any(ConnectionLostError));
+    });
+
+    describe('outbox', () => {
+        it('sends held requests in order once connected', async () => {
+            const channel = createReconnectingChannel(channel$, { outbox: {} });
+            const published = channel.publish('first', [], undefined, { outbox: true });
+            channel.call('second', [], undefined, { outbox: true }).subscribe();
+            channel.publish('third', [], undefined, { outbox: true });
+
+            const fake = makeFakeChannel(1);
+            connections[0].next(fake);
+            expect(fake.publish).toHaveBeenNthCalledWith(1, 'first', [], undefined, { outbox: true });
+            expect(fake.publish).toHaveBeenNthCalledWith(2, 'third', [], undefined, { outbox: true });
+            expect(fake.publish.mock.invocationCallOrder[0]).toBeLessThan(fake.call.mock.invocationCallOrder[0]);
+            expect(fake.call.mock.invocationCallOrder[0]).toBeLessThan(fake.publish.mock.invocationCallOrder[1]);
+            expect(await published).toBe(1234);
+        });
+
+        it('fails requests which expire', async () => {
+            const channel = createReconnectingChannel(channel$, { outbox: { ttl: 1000 } });
+            const published = channel.publish('some.topic', [], undefined, { outbox: true });
+            vi.advanceTimersByTime(1000);
+            await expect(published).rejects.toEqual(new OutboxExpiredError('some.topic', 1000));
+
+            const fake = makeFakeChannel(1);
+            connections[0].next(fake);
+            expect(fake.publish).not.toHaveBeenCalled();
+        });
+
+        it('fails requests when it is full', () => {
+            const channel = createReconnectingChannel(channel$, { outbox: { maxSize: 1 } });
+            let error: any;
+            channel.call('first', [], undefined, { outbox: true }).subscribe();
+            channel.call('second', [], undefined, { outbox: true }).subscribe({ error: e => error = e });
+            expect(error).toEqual(new OutboxFullError('second', 1));
+            // Not held, so it just waits for the next channel
+            channel.call('third').subscribe({ error: e => error = e });
+
+            const fake = makeFakeChannel(1);
+            connections[0].next(fake);
+            expect(fake.call.mock.calls.map(([uri]) => uri)).toEqual(['first', 'third']);
+        });
+
+        it('fails held requests when the channel closes', async () => {
+            const channel = createReconnectingChannel(channel$, { outbox: {} });
+            const published = channel.publish('some.topic', [], undefined, { outbox: true });
+            await channel.close();
+            await expect(published).rejects.toEqual(new Error('Channel is closed'));
+        });
+    });
+
+    it('re-registers on each new channel', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100 });
+        const fake1 = makeFakeChannel(1);
+        connections[0].next(fake1);
+
+        const func = () => NEVER;
+        const registration = await channel.register('my.function', func, { invoke: 'roundrobin' });
+        expect(fake1.register).toHaveBeenCalledWith('my.function', func, { invoke: 'roundrobin' });
+
+        connections[0].error(new Error('Websocket disconnected'));
+        await vi.advanceTimersByTimeAsync(100);
+        const fake2 = makeFakeChannel(2);
+        const fake2Registration = new Subscription();
+        fake2.register.mockResolvedValue(fake2Registration);
+        connections[1].next(fake2);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fake2.register).toHaveBeenCalledWith('my.function', func, { invoke: 'roundrobin' });
+
+        registration.unsubscribe();
+        expect(fake2Registration.closed).toBeTruthy();
+    });
+
+    it('rejects when the first registration fails', async () => {
+        const channel = createReconnectingChannel(channel$);
+        const fake = makeFakeChannel(1);
+        fake.register.mockRejectedValue(new Error('wamp.error.procedure_already_exists'));
+        connections[0].next(fake);
+
+        await expect(channel.register('my.function', () => NEVER)).rejects.toEqual(new Error('wamp.error.procedure_already_exists'));
+    });
+
+    it('rejects a registration when closed before it was registered', async () => {
+        const channel = createReconnectingChannel(channel$);
+        const registration = channel.register('my.function', () => NEVER);
+        await channel.close();
+        await expect(registration).rejects.toEqual(new Error('Channel is closed'));
+    });
+
+    it('keeps a subscription running across reconnects', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100 });
+        const events1 = new Subject<EventArgsAndDict>();
+        const events2 = new Subject<EventArgsAndDict>();
+        const fake1 = makeFakeChannel(1);
+        fake1.subscribe.mockReturnValue(events1);
+        const fake2 = makeFakeChannel(2);
+        fake2.subscribe.mockReturnValue(events2);
+
+        const received: any[] = [];
+        channel.subscribe('some.topic').subscribe(([[it]]: any) => received.push(it));
+        connections[0].next(fake1);
+        events1.next([['first'], undefined, { publication: 1, topic: 'some.topic' }]);
+
+        connections[0].error(new Error('Websocket disconnected'));
+        await vi.advanceTimersByTimeAsync(100);
+        connections[1].next(fake2);
+        events2.next([['second'], undefined, { publication: 2, topic: 'some.topic' }]);
+
+        expect(fake2.subscribe).toHaveBeenCalledWith('some.topic', undefined);
+        expect(received).toEqual(['first', 'second']);
+    });
+
+    it('keeps a subscription running when the RawSocket transport disconnects', async () => {
+        // Fake TCP socket of a router which welcomes every session
+        const sockets: any[] = [];
+        const makeSocket = () => {
+            const listeners: {[event: string]: (...args: any[]) => void} = {};
+            const socket = {
+                on: (event: string, listener: (...args: any[]) => void) => { listeners[event] = listener; },
+                write: vi.fn(),
+                destroy: vi.fn(),
+                emit: (event: string, ...args: any[]) => listeners[event](...args),
+                receive: (msg: any[]) => {
+                    const payload = new TextEncoder().encode(JSON.stringify(msg));
+                    socket.emit('data', new Uint8Array([0, 0, payload.length >> 8, payload.length & 0xff, ...payload]));
+                },
+                lastSent: () => JSON.parse(new TextDecoder().decode(socket.write.mock.lastCall![0].subarray(4)))
+            };
+            sockets.push(socket);
+            return socket;
+        };
+        const connectSocket = async () => {
+            const socket = sockets[sockets.length - 1];
+            socket.emit('connect');
+            socket.emit('data', new Uint8Array([0x7f, 0xf1, 0, 0]));
+            socket.receive([WampMessageEnum.WELCOME, 1, { roles: { broker: {} } }]);
+            await vi.advanceTimersByTimeAsync(0);
+            return socket;
+        };
+        const subscribed = async (socket: any, subscriptionId: number) => {
+            const [, reqId] = socket.lastSent();
+            socket.receive([WampMessageEnum.SUBSCRIBED, reqId, subscriptionId]);
+            await vi.advanceTimersByTimeAsync(0);
+        };
+
+        const channel = createReconnectingChannel(
+            connectWampChannel('tcp://localhost:8080', 'realm1', undefined, makeObservableRawSocket(makeSocket)),
+            { initialDelay: 100 });
+        const received: any[] = [];
+        let error: any;
+        channel.subscribe('some.topic').subscribe({ next: ([[it]]: any) => received.push(it), error: e => error = e });
+
+        const socket1 = await connectSocket();
+        await subscribed(socket1, 5);
+        socket1.receive([WampMessageEnum.EVENT, 5, 1, {}, ['first']]);
+
+        socket1.emit('close');
+        await vi.advanceTimersByTimeAsync(100);
+        const socket2 = await connectSocket();
+        await subscribed(socket2, 6);
+        socket2.receive([WampMessageEnum.EVENT, 6, 2, {}, ['second']]);
+
+        expect(error).toBeUndefined();
+        expect(received).toEqual(['first', 'second']);
+    });
+
+    it('resubscribes when the subscription errors before the channel is lost', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100 });
+        const events1 = new Subject<EventArgsAndDict>();
+        const fake1 = makeFakeChannel(1);
+        fake1.subscribe.mockReturnValue(events1);
+        const fake2 = makeFakeChannel(2);
+
+        let error: any;
+        channel.subscribe('some.topic').subscribe({ error: e => error = e });
+        connections[0].next(fake1);
+        events1.error(new WampProtocolViolationError('Received unknown message type 999'));
+        connections[0].error(new WampProtocolViolationError('Received unknown message type 999'));
+        await vi.advanceTimersByTimeAsync(100);
+        connections[1].next(fake2);
+
+        expect(error).toBeUndefined();
+        expect(fake2.subscribe).toHaveBeenCalledWith('some.topic', undefined);
+    });
+
+    it('passes on an error the router replied to the subscribe', () => {
+        const channel = createReconnectingChannel(channel$);
+        const fake = makeFakeChannel(1);
+        fake.subscribe.mockReturnValue(throwError(() => new WampError('wamp.error.not_authorized')));
+
+        let error: any;
+        channel.subscribe('some.topic').subscribe({ error: e => error = e });
+        connections[0].next(fake);
+        expect(error).toEqual(new WampError('wamp.error.not_authorized'));
+    });
+
+    describe('keeps a subscription running when the session is lost', () => {
+        const expectResubscribed = async (loseSession: (router: FakeRouter) => void) => {
+            const router = createFakeRouter();
+            const channel = createReconnectingChannel(connectWampChannel('', 'realm1', undefined, router.connect), { initialDelay: 100 });
+            const received: any[] = [];
+            let error: any;
+            channel.subscribe('some.topic').subscribe({ next: ([[it]]: any) => received.push(it), error: e => error = e });
+            const subscribed = async (subscriptionId: number) => {
+                await vi.advanceTimersByTimeAsync(0);
+                const [[, reqId]] = router.expectSent([WampMessageEnum.SUBSCRIBE, expect.any(Number), {}, 'some.topic']);
+                router.receive([WampMessageEnum.SUBSCRIBED, reqId, subscriptionId]);
+            };
+
+            await subscribed(5);
+            router.receive([WampMessageEnum.EVENT, 5, 1, {}, ['first']]);
+            loseSession(router);
+            await vi.advanceTimersByTimeAsync(100);
+            await subscribed(6);
+            router.receive([WampMessageEnum.EVENT, 6, 2, {}, ['second']]);
+
+            expect(error).toBeUndefined();
+            expect(received).toEqual(['first', 'second']);
+        };
+
+        it('because the transport disconnects', () => expectResubscribed(router => router.disconnect()));
+
+        it('because the router violates the protocol', () => expectResubscribed(router => {
+            router.receive([999]);
+            router.expectSent([WampMessageEnum.ABORT, expect.any(Object), 'wamp.error.protocol_violation']);
+        }));
+    });
+
+    it('closes the current channel and stops reconnecting', async () => {
+        const channel = createReconnectingChannel(channel$, { initialDelay: 100 });
+        const fake = makeFakeChannel(1);
+        connections[0].next(fake);
+        let closed = false;
+        channel.closed$.subscribe({ complete: () => closed = true });
+
+        await channel.close('wamp.close.system_shutdown');
+        expect(fake.close).toHaveBeenCalledWith('wamp.close.system_shutdown', undefined);
+        expect(closed).toBeTruthy();
+        expect(connections[0].observed).toBeFalsy();
+
+        let error: any;
+        channel.call('thing').subscribe({ error: e => error = e });
+        expect(error).toEqual(new Error('Channel is closed'));
+    });
+});
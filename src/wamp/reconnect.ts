@@ -0,0 +1,239 @@
+import { Observable, BehaviorSubject, Subject, Subscription, Subscriber, EMPTY, ObservableNotification, merge, defer, timer, firstValueFrom,
+    retry, tap, finalize, filter, take, map, switchMap, catchError, throwError, throwIfEmpty, materialize, dematerialize } from 'rxjs';
+import { Args, Dict, ArgsAndDict, WampChannel, WampSession, RegisteredFunc, MakeLogger, makeNullLogger, WampError,
+    WampSessionClosedError, CallOptions, PublishOptions, SubscribeOptions, RegisterOptions, EventArgsAndDict } from './wamp';
+
+export interface ReconnectOptions {
+    // Delay before the first reconnect attempt in ms. It is multiplied by factor
+    // on each subsequent failed attempt, up to maxDelay.
+    initialDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+    // Gives up after this many subsequent failed attempts. Then closed$ errors.
+    maxRetries?: number;
+    makeLogger?: MakeLogger;
+    // Enables the outbox, which holds calls and publishes with option outbox while disconnected
+    outbox?: OutboxOptions;
+}
+
+export interface OutboxOptions {
+    // Max number of held calls and publishes. Defaults to 100.
+    maxSize?: number;
+    // Milliseconds a call or publish is held at most. Defaults to 30000.
+    ttl?: number;
+}
+
+export interface ReconnectingChannel extends Omit<WampChannel, 'session'> {
+    // The session of the current channel. Undefined while (re)connecting.
+    readonly session: WampSession | undefined;
+    // The current channel. Emits undefined while (re)connecting.
+    channel$: Observable<WampChannel | undefined>;
+}
+
+export class ConnectionLostError extends Error {
+    constructor() {
+        super('Connection lost');
+        this.name = 'ConnectionLostError';
+    }
+}
+
+// Thrown when a call or publish can't be held because the outbox is full
+export class OutboxFullError extends Error {
+    constructor(uri: string, maxSize: number) {
+        super(`Outbox is full with ${maxSize} requests, ${uri} is not sent`);
+        this.name = 'OutboxFullError';
+    }
+}
+
+// Thrown when a call or publish was held in the outbox for longer than its ttl
+export class OutboxExpiredError extends Error {
+    constructor(uri: string, ttl: number) {
+        super(`${uri} was not sent within ${ttl} ms`);
+        this.name = 'OutboxExpiredError';
+    }
+}
+
+// Keeps channel$ connected and transparently restores all registrations and subscriptions
+// on each new channel. channel$ is typically created by connectWampChannel().
+export const createReconnectingChannel = (channel$: Observable<WampChannel>, options: ReconnectOptions = {}): ReconnectingChannel => {
+    const { initialDelay = 1000, maxDelay = 30000, factor = 2, maxRetries = Infinity, makeLogger = makeNullLogger,
+        outbox: outboxOptions } = options;
+    const logger = makeLogger('reconnect/');
+    const current = new BehaviorSubject<WampChannel | undefined>(undefined);
+    const closed = new Subject<never>();
+
+    const connection = channel$.pipe(
+        tap({ error: e => {
+            logger.warn('Connection lost', e);
+            current.next(undefined);
+        }}),
+        retry({
+            count: maxRetries,
+            resetOnSuccess: true,
+            delay: (_, retryCount) => timer(Math.min(initialDelay * factor ** (retryCount - 1), maxDelay))
+        }),
+        finalize(() => current.next(undefined))
+    ).subscribe({
+        next: channel => current.next(channel),
+        error: e => {
+            current.complete();
+            closed.error(e);
+        },
+        complete: () => {
+            current.complete();
+            closed.complete();
+        }
+    });
+
+    const whenConnected$ = current.pipe(
+        filter((channel): channel is WampChannel => !!channel),
+        take(1),
+        throwIfEmpty(() => new Error('Channel is closed')));
+
+    // Calls and publishes waiting for the next channel, in the order they were made
+    const outbox: Subscriber<WampChannel>[] = [];
+    let isClosed = false;
+    current.subscribe({
+        next: channel => {
+            if (channel) {
+                outbox.splice(0).forEach(held => {
+                    held.next(channel);
+                    held.complete();
+                });
+            }
+        },
+        complete: () => {
+            isClosed = true;
+            outbox.splice(0).forEach(held => held.error(new Error('Channel is closed')));
+        }
+    });
+
+    // Emits the channel to send a request to. With useOutbox, it is held in the outbox while
+    // disconnected, when the outbox is enabled. Otherwise it waits for the next channel.
+    const channelFor$ = (uri: string, useOutbox?: boolean) => defer(() => {
+        if (!outboxOptions || !useOutbox || current.value || isClosed) {
+            return whenConnected$;
+        }
+        const { maxSize = 100, ttl = 30000 } = outboxOptions;
+        return new Observable<WampChannel>(held => {
+            if (outbox.length >= maxSize) {
+                held.error(new OutboxFullError(uri, maxSize));
+                return;
+            }
+            outbox.push(held);
+            const expiry = setTimeout(() => held.error(new OutboxExpiredError(uri, ttl)), ttl);
+            return () => {
+                clearTimeout(expiry);
+                const index = outbox.indexOf(held);
+                if (index >= 0) {
+                    outbox.splice(index, 1);
+                }
+            };
+        });
+    });
+
+    // Errors with a ConnectionLostError when channel is replaced before source ends
+    const throwWhenLost = <T>(channel: WampChannel) => (source: Observable<T>): Observable<T> => merge(
+        source.pipe(materialize()),
+        current.pipe(
+            filter(it => it !== channel),
+            take(1),
+            map((): ObservableNotification<T> => ({ kind: 'E', error: new ConnectionLostError() })))
+    ).pipe(dematerialize());
+
+    const call = (uri: string, args?: Args, dict?: Dict, options?: CallOptions) =>
+        channelFor$(uri, options?.outbox).pipe(
+            switchMap(channel => channel.call(uri, args, dict, options).pipe(throwWhenLost(channel))));
+
+    const callProgressive = (uri: string, input$: Observable<ArgsAndDict>, options?: CallOptions) =>
+        channelFor$(uri, options?.outbox).pipe(
+            switchMap(channel => channel.callProgressive(uri, input$, options).pipe(throwWhenLost(channel))));
+
+    const publish = (uri: string, args?: Args, dict?: Dict, options?: PublishOptions) =>
+        firstValueFrom(channelFor$(uri, options?.outbox).pipe(
+            switchMap(channel => defer(() => channel.publish(uri, args, dict, options)).pipe(throwWhenLost(channel)))));
+
+    // Errors because the session ended are ignored, so it is resubscribed on the next channel.
+    // Only errors the router replied, like a failed subscribe, are passed on.
+    const subscribe = (uri: string, options?: SubscribeOptions): Observable<EventArgsAndDict> =>
+        current.pipe(
+            switchMap(channel => !channel ? EMPTY : channel.subscribe(uri, options).pipe(
+                catchError(e => e instanceof WampError && !(e instanceof WampSessionClosedError) ? throwError(() => e) : EMPTY))));
+
+    // Emits once registered, and unregisters on unsubscribe, also when that is before
+    // the registration succeeded.
+    const keepRegistered = (channel: WampChannel, uri: string, func: RegisteredFunc, options?: RegisterOptions) =>
+        new Observable<void>(observer => {
+            let registration: Subscription | undefined;
+            let unsubscribed = false;
+            channel.register(uri, func, options).then(
+                it => {
+                    registration = it;
+                    if (unsubscribed) {
+                        registration.unsubscribe();
+                    } else {
+                        observer.next();
+                    }
+                },
+                e => observer.error(e));
+            return () => {
+                unsubscribed = true;
+                registration?.unsubscribe();
+            };
+        });
+
+    // Resolves once registered on the current channel. When it fails to re-register
+    // on a subsequent channel, it is logged and retried on the next one.
+    const register = (uri: string, func: RegisteredFunc, options?: RegisterOptions) =>
+        new Promise<Subscription>((resolve, reject) => {
+            let registered = false;
+            const subs = new Subscription();
+            subs.add(current.pipe(
+                switchMap(channel => !channel ? EMPTY : keepRegistered(channel, uri, func, options).pipe(
+                    catchError(e => {
+                        if (!registered) {
+                            throw e;
+                        }
+                        logger.warn(`Failed to re-register ${uri}`, e);
+                        return EMPTY;
+                    })))
+            ).subscribe({
+                next: () => {
+                    registered = true;
+                    resolve(subs);
+                },
+                error: reject,
+                // Closed before it was ever registered
+                complete: () => reject(new Error('Channel is closed'))
+            }));
+        });
+
+    const close = async (reason?: string, message?: string) => {
+        try {
+            await current.value?.close(reason, message);
+        } finally {
+            connection.unsubscribe();
+            current.complete();
+            closed.complete();
+        }
+    };
+
+    return {
+        get session() {
+            return current.value?.session;
+        },
+        channel$: current.asObservable(),
+        call,
+        callProgressive,
+        register,
+        publish,
+        subscribe,
+        close,
+        closed$: closed.asObservable(),
+        // Metrics of the current channel, so they start over on each reconnect
+        metrics$: current.pipe(
+            switchMap(channel => channel ? channel.metrics$ : EMPTY)),
+        backgroundError$: current.pipe(
+            switchMap(channel => channel ? channel.backgroundError$ : EMPTY))
+    };
+};
@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import { Observable, Subject, firstValueFrom, lastValueFrom, of, toArray, take, throwError, NEVER, reduce, map, concat } from 'rxjs';
+import { connectWampChannel, ArgsAndDict, EventArgsAndDict, WampError, WampWebSocket } from './wamp';
+import { toPromise } from './extras';
+import { createWampRouter, WampRouter } from './router';
+
+describe('router', () => {
+
+    const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const join = (router: WampRouter, realm = 'realm1') =>
+        toPromise(connectWampChannel('local', realm, undefined, router.connect));
+
+    const collect = (events$: Observable<EventArgsAndDict>) => {
+        const events: EventArgsAndDict[] = [];
+        events$.subscribe(event => events.push(event));
+        return events;
+    };
+
+    describe('session', () => {
+        it('welcomes a session with its roles', async () => {
+            const router = createWampRouter();
+            const channel = await join(router);
+            expect(channel.session.id).toEqual(expect.any(Number));
+            expect(channel.session.authrole).toBe('anonymous');
+            expect(channel.session.roles.dealer?.features?.progressive_call_results).toBe(true);
+            expect(channel.session.roles.broker?.features?.pattern_based_subscription).toBe(true);
+            expect(router.sessionCount).toBe(1);
+        });
+
+        it('says goodbye and cleans up the session', async () => {
+            const router = createWampRouter();
+            const channel = await join(router);
+            await channel.close();
+            expect(router.sessionCount).toBe(0);
+        });
+
+        it('cleans up the session when the connection is closed', async () => {
+            const router = createWampRouter();
+            const subscription = connectWampChannel('local', 'realm1', undefined, router.connect).subscribe();
+            await handleQueuedEvents();
+            expect(router.sessionCount).toBe(1);
+            subscription.unsubscribe();
+            expect(router.sessionCount).toBe(0);
+        });
+
+        it('aborts on a protocol violation', async () => {
+            const router = createWampRouter();
+            const received: string[] = [];
+            router.connect('local', 'wamp.2.json').subscribe(ws => {
+                ws.receive$.subscribe(data => received.push(data as string));
+                ws.send('[32,1,{},"topic"]');
+            });
+            await handleQueuedEvents();
+            expect(received).toEqual(['[3,{"message":"Unexpected message type 32"},"wamp.error.protocol_violation"]']);
+        });
+    });
+
+    describe('dealer', () => {
+        it('routes a call to the callee', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('add', args => of([[args![0] + args![1]]]));
+            expect(await lastValueFrom(caller.call('add', [1, 2]))).toEqual([[3]]);
+        });
+
+        it('routes progressive results', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('count', () => of<ArgsAndDict[]>([[1]], [[2]], [[3]]));
+            expect(await lastValueFrom(caller.call('count').pipe(toArray()))).toEqual([[[1]], [[2]], [[3]]]);
+        });
+
+        it('routes progressive call invocations', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('sum', (args, kwargs, details) => details!.input$!.pipe(
+                reduce((sum, [inputArgs]) => sum + inputArgs![0], 0),
+                map((sum): ArgsAndDict => [[sum]])));
+            expect(await lastValueFrom(caller.callProgressive('sum', of<ArgsAndDict[]>([[1]], [[2]], [[3]]))))
+                .toEqual([[6]]);
+        });
+
+        it('drops input of a progressive call which finished already', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            let invoked = 0;
+            await callee.register('first', () => {
+                ++invoked;
+                return of<ArgsAndDict>([['done']]);
+            });
+            const received: string[] = [];
+            let ws!: WampWebSocket;
+            router.connect('local', 'wamp.2.json').subscribe(it => ws = it);
+            ws.receive$.subscribe(data => received.push(data as string));
+            ws.send('[1,"realm1",{}]');
+            ws.send('[48,1,{"progress":true},"first",[1]]');
+            await handleQueuedEvents();
+            expect(received[1]).toBe('[50,1,{},["done"]]');
+
+            // Was underway while the callee finished
+            ws.send('[48,1,{"progress":true},"first",[2]]');
+            ws.send('[48,1,{},"first"]');
+            // After the final part, the request id can be used again
+            ws.send('[48,1,{},"first",[3]]');
+            await handleQueuedEvents();
+            expect(invoked).toBe(2);
+            expect(received.slice(2)).toEqual(['[50,1,{},["done"]]']);
+        });
+
+        it('forgets a progressive call once it is canceled', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            let invoked = 0;
+            await callee.register('slow', () => {
+                ++invoked;
+                return NEVER;
+            });
+            let ws!: WampWebSocket;
+            router.connect('local', 'wamp.2.json').subscribe(it => ws = it);
+            ws.receive$.subscribe();
+            ws.send('[1,"realm1",{}]');
+            ws.send('[48,1,{"progress":true},"slow",[1]]');
+            ws.send('[49,1,{"mode":"killnowait"}]');
+            // A canceling caller sends no more input, so the request id can be used again
+            ws.send('[48,1,{},"slow",[2]]');
+            await handleQueuedEvents();
+            expect(invoked).toBe(2);
+        });
+
+        it('tells the callee no more input follows when it finished early', async () => {
+            const router = createWampRouter();
+            let ws!: WampWebSocket;
+            router.connect('local', 'wamp.2.json').subscribe(it => ws = it);
+            const received: string[] = [];
+            ws.receive$.subscribe(data => received.push(data as string));
+            ws.send('[1,"realm1",{}]');
+            ws.send('[64,1,{},"first"]');
+            const caller = await join(router);
+            caller.callProgressive('first', concat(of<ArgsAndDict>([[1]]), NEVER)).subscribe();
+            await handleQueuedEvents();
+            const [, invocationId] = JSON.parse(received[2]);
+
+            ws.send(`[70,${invocationId},{},["done"]]`);
+            await handleQueuedEvents();
+            expect(received[3]).toBe(`[69,${invocationId},{"mode":"killnowait"}]`);
+        });
+
+        it('routes errors of the callee', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('fail', () => throwError(() => new Error('oops')));
+            await expect(lastValueFrom(caller.call('fail'))).rejects.toEqual(new WampError('wamp.error', ['oops']));
+        });
+
+        it('fails a call to an unknown procedure', async () => {
+            const router = createWampRouter();
+            const caller = await join(router);
+            await expect(lastValueFrom(caller.call('unknown')))
+                .rejects.toEqual(new WampError('wamp.error.no_such_procedure', ['No procedure registered for unknown']));
+        });
+
+        it('refuses a second registration of the same procedure', async () => {
+            const router = createWampRouter();
+            const callee1 = await join(router);
+            const callee2 = await join(router);
+            await callee1.register('proc', () => of([]));
+            await expect(callee2.register('proc', () => of([]))).rejects.toEqual(new WampError('wamp.error.procedure_already_exists'));
+        });
+
+        it('distributes calls over shared registrations', async () => {
+            const router = createWampRouter();
+            const callee1 = await join(router);
+            const callee2 = await join(router);
+            const caller = await join(router);
+            await callee1.register('who', () => of([['callee1']]), { invoke: 'roundrobin' });
+            await callee2.register('who', () => of([['callee2']]), { invoke: 'roundrobin' });
+            const results = [];
+            for (let i = 0; i < 3; ++i) {
+                results.push((await lastValueFrom(caller.call('who')))[0]![0]);
+            }
+            expect(results).toEqual(['callee1', 'callee2', 'callee1']);
+        });
+
+        it('prefers exact over prefix over wildcard registrations', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('com.app.', (args, dict, details) => of([['prefix', details!.procedure]]), { match: 'prefix' });
+            await callee.register('com.app.longer.', () => of([['longer prefix']]), { match: 'prefix' });
+            await callee.register('com..do', () => of([['wildcard']]), { match: 'wildcard' });
+            await callee.register('com.app.do', () => of([['exact']]));
+            expect((await lastValueFrom(caller.call('com.app.do')))[0]).toEqual(['exact']);
+            expect((await lastValueFrom(caller.call('com.app.other')))[0]).toEqual(['prefix', 'com.app.other']);
+            expect((await lastValueFrom(caller.call('com.app.longer.do')))[0]).toEqual(['longer prefix']);
+            expect((await lastValueFrom(caller.call('com.lib.do')))[0]).toEqual(['wildcard']);
+        });
+
+        it('discloses the caller when asked', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('whoami', (args, dict, details) => of([[details!.caller]]));
+            expect((await lastValueFrom(caller.call('whoami', [], {}, { disclose_me: true })))[0]).toEqual([caller.session.id]);
+        });
+
+        it('interrupts the callee when a call is canceled', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            let interrupted = false;
+            await callee.register('forever', () => new Observable(() => () => interrupted = true));
+            const subscription = caller.call('forever').subscribe({ error: () => {} });
+            await handleQueuedEvents();
+            subscription.unsubscribe();
+            await handleQueuedEvents();
+            expect(interrupted).toBe(true);
+        });
+
+        it('fails pending calls when the callee leaves', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            await callee.register('forever', () => NEVER);
+            const result = lastValueFrom(caller.call('forever'));
+            await handleQueuedEvents();
+            await callee.close();
+            await expect(result).rejects.toEqual(new WampError('wamp.error.canceled', ['Callee left the realm']));
+        });
+
+        it('unregisters a procedure', async () => {
+            const router = createWampRouter();
+            const callee = await join(router);
+            const caller = await join(router);
+            const registration = await callee.register('proc', () => of([]));
+            registration.unsubscribe();
+            await handleQueuedEvents();
+            await expect(lastValueFrom(caller.call('proc'))).rejects.toMatchObject({ uri: 'wamp.error.no_such_procedure' });
+        });
+    });
+
+    describe('broker', () => {
+        it('delivers events to subscribers but not to the publisher', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const subscriber = await join(router);
+            const published = collect(publisher.subscribe('topic'));
+            const received = collect(subscriber.subscribe('topic'));
+            await handleQueuedEvents();
+            const publication = await publisher.publish('topic', [1], { a: 2 });
+            expect(received).toEqual([[[1], { a: 2 }, { topic: 'topic', publication }]]);
+            expect(published).toEqual([]);
+        });
+
+        it('delivers events to the publisher when not excluded', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const received = collect(publisher.subscribe('topic'));
+            await handleQueuedEvents();
+            await publisher.publish('topic', [1], undefined, { exclude_me: false });
+            expect(received.length).toBe(1);
+        });
+
+        it('filters receivers by black and white lists', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const subscriber1 = await join(router);
+            const subscriber2 = await join(router);
+            const received1 = collect(subscriber1.subscribe('topic'));
+            const received2 = collect(subscriber2.subscribe('topic'));
+            await handleQueuedEvents();
+            await publisher.publish('topic', [1], undefined, { eligible: [subscriber1.session.id] });
+            await publisher.publish('topic', [2], undefined, { exclude: [subscriber1.session.id] });
+            expect(received1.map(([args]) => args)).toEqual([[1]]);
+            expect(received2.map(([args]) => args)).toEqual([[2]]);
+        });
+
+        it('delivers events to pattern based subscriptions', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const subscriber = await join(router);
+            const received = collect(subscriber.subscribe('com.app.', { match: 'prefix' }));
+            await handleQueuedEvents();
+            await publisher.publish('com.app.event', [], undefined, { disclose_me: true });
+            expect(received[0][2]).toEqual(expect.objectContaining({
+                topic: 'com.app.event',
+                publisher: publisher.session.id
+            }));
+        });
+
+        it('delivers the retained event to new subscribers', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const subscriber = await join(router);
+            await publisher.publish('state', ['old'], undefined, { retain: true });
+            await publisher.publish('state', ['new'], undefined, { retain: true });
+            const received = await firstValueFrom(subscriber.subscribe('state', { get_retained: true }));
+            expect(received[0]).toEqual(['new']);
+            expect(received[2].retained).toBe(true);
+        });
+
+        it('stops delivering events after unsubscribing', async () => {
+            const router = createWampRouter();
+            const publisher = await join(router);
+            const subscriber = await join(router);
+            const events$ = new Subject<EventArgsAndDict>();
+            const received = collect(events$);
+            const subscription = subscriber.subscribe('topic').subscribe(events$);
+            await handleQueuedEvents();
+            await publisher.publish('topic', [1]);
+            subscription.unsubscribe();
+            await handleQueuedEvents();
+            await publisher.publish('topic', [2]);
+            expect(received.length).toBe(1);
+        });
+    });
+
+    it('separates realms', async () => {
+        const router = createWampRouter();
+        const publisher = await join(router, 'realm1');
+        const subscriber = await join(router, 'realm2');
+        const received = collect(subscriber.subscribe('topic').pipe(take(1)));
+        await handleQueuedEvents();
+        await publisher.publish('topic', [1]);
+        await handleQueuedEvents();
+        expect(received).toEqual([]);
+    });
+});
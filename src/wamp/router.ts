@@ -0,0 +1,511 @@
+import { Observable, Subject } from 'rxjs';
+import { Args, Dict, MakeLogger, MakeObservableWebSocket, MatchPolicy, InvocationPolicy, WampMessageEnum,
+    WampWebSocket, makeNullLogger, trimArray } from './wamp';
+import { WampData, jsonSerializer } from './serializers';
+
+// Lightweight in-process WAMP router (broker and dealer), for tests and embedded use.
+// It supports the basic profile plus the advanced features the client uses. No authentication.
+
+export interface WampRouterOptions {
+    makeLogger?: MakeLogger;
+}
+
+export interface WampRouter {
+    // Fits the makeObservableWebSocket parameter of connectWampChannel(). Each subscription
+    // is a new connection, which is closed on unsubscribe.
+    connect: MakeObservableWebSocket;
+    // Number of sessions currently joined
+    readonly sessionCount: number;
+}
+
+interface Session {
+    id: number;
+    realm?: Realm;
+    authid: string;
+    authrole: string;
+    send: (msg: any[]) => void;
+    // Request ids of progressive calls which finished before all input was sent
+    finishedCalls: Set<number>;
+}
+
+interface Registration {
+    id: number;
+    uri: string;
+    match: MatchPolicy;
+    invoke: InvocationPolicy;
+    callees: Session[];
+    nextCallee: number;
+}
+
+interface Subscription {
+    id: number;
+    uri: string;
+    match: MatchPolicy;
+    subscribers: Set<Session>;
+}
+
+interface Invocation {
+    id: number;
+    caller: Session;
+    callRequestId: number;
+    callee: Session;
+    registrationId: number;
+    receiveProgress: boolean;
+    // Whether the caller sends more input in subsequent CALLs
+    progressive: boolean;
+    timeout?: ReturnType<typeof setTimeout>;
+}
+
+interface Realm {
+    sessions: Set<Session>;
+    registrations: Map<number, Registration>;
+    subscriptions: Map<number, Subscription>;
+    invocations: Map<number, Invocation>;
+    // Last retained event per topic
+    retained: Map<string, { publisher: Session, options: Dict, args?: Args, kwargs?: Dict }>;
+}
+
+const routerRoles = {
+    broker: { features: {
+        pattern_based_subscription: true,
+        publisher_exclusion: true,
+        publisher_identification: true,
+        subscriber_blackwhite_listing: true,
+        event_retention: true,
+        payload_passthru_mode: true
+    }},
+    dealer: { features: {
+        progressive_call_results: true,
+        progressive_call_invocations: true,
+        call_canceling: true,
+        call_timeout: true,
+        caller_identification: true,
+        pattern_based_registration: true,
+        shared_registration: true,
+        payload_passthru_mode: true
+    }}
+};
+
+// The payload passthru mode options of a message, which are passed on as-is
+const pptDetails = (options: Dict): Dict =>
+    Object.fromEntries(Object.entries(options).filter(([key]) => key.startsWith('ppt_')));
+
+const uriMatches = (match: MatchPolicy, pattern: string, uri: string) => {
+    switch (match) {
+        case 'prefix':
+            return uri.startsWith(pattern);
+        case 'wildcard': {
+            const patternParts = pattern.split('.');
+            const uriParts = uri.split('.');
+            return patternParts.length === uriParts.length
+                && patternParts.every((part, i) => part === '' || part === uriParts[i]);
+        }
+        default:
+            return pattern === uri;
+    }
+};
+
+// Exact registrations win over prefix ones, which win over wildcard ones.
+// Within prefix and wildcard registrations, the longest pattern wins.
+const matchPrecedence: MatchPolicy[] = ['exact', 'prefix', 'wildcard'];
+
+class ProtocolViolation extends Error {}
+
+export const createWampRouter = (options: WampRouterOptions = {}): WampRouter => {
+    const { makeLogger = makeNullLogger } = options;
+    const logger = makeLogger('router/');
+    const realms = new Map<string, Realm>();
+    let nextId = 0;
+    const newId = () => ++nextId;
+
+    const getRealm = (name: string) => {
+        let realm = realms.get(name);
+        if (!realm) {
+            realm = { sessions: new Set(), registrations: new Map(), subscriptions: new Map(), invocations: new Map(), retained: new Map() };
+            realms.set(name, realm);
+        }
+        return realm;
+    };
+
+    const sendError = (session: Session, requestType: WampMessageEnum, requestId: number, error: string, args?: Args, kwargs?: Dict, details: Dict = {}) =>
+        session.send(trimArray([WampMessageEnum.ERROR, requestType, requestId, details, error, args, kwargs]));
+
+    // *** Session
+
+    const hello = (session: Session, [, realmName, details]: any[]) => {
+        if (session.realm) {
+            throw new ProtocolViolation('Received HELLO in an established session');
+        }
+        session.realm = getRealm(realmName);
+        session.realm.sessions.add(session);
+        session.authid = details.authid || `anonymous-${session.id}`;
+        session.authrole = 'anonymous';
+        session.send([WampMessageEnum.WELCOME, session.id, {
+            authid: session.authid,
+            authrole: session.authrole,
+            authmethod: 'anonymous',
+            roles: routerRoles
+        }]);
+    };
+
+    const leave = (session: Session) => {
+        const realm = session.realm;
+        if (!realm) {
+            return;
+        }
+        realm.sessions.delete(session);
+        realm.subscriptions.forEach(subscription => {
+            subscription.subscribers.delete(session);
+            if (subscription.subscribers.size === 0) {
+                realm.subscriptions.delete(subscription.id);
+            }
+        });
+        realm.registrations.forEach(registration => removeCallee(realm, registration, session));
+        session.finishedCalls.clear();
+        realm.invocations.forEach(invocation => {
+            if (invocation.callee === session) {
+                finishInvocation(realm, invocation);
+                sendError(invocation.caller, WampMessageEnum.CALL, invocation.callRequestId, 'wamp.error.canceled',
+                    ['Callee left the realm']);
+            } else if (invocation.caller === session) {
+                finishInvocation(realm, invocation);
+                invocation.callee.send([WampMessageEnum.INTERRUPT, invocation.id, { mode: 'killnowait' }]);
+            }
+        });
+        session.realm = undefined;
+    };
+
+    const goodbye = (session: Session) => {
+        leave(session);
+        session.send([WampMessageEnum.GOODBYE, {}, 'wamp.close.goodbye_and_out']);
+    };
+
+    // *** Dealer
+
+    const removeCallee = (realm: Realm, registration: Registration, session: Session) => {
+        registration.callees = registration.callees.filter(callee => callee !== session);
+        if (registration.callees.length === 0) {
+            realm.registrations.delete(registration.id);
+        }
+    };
+
+    const register = (session: Session, realm: Realm, [, requestId, options, uri]: any[]) => {
+        const match: MatchPolicy = options.match || 'exact';
+        const invoke: InvocationPolicy = options.invoke || 'single';
+        const existing = [...realm.registrations.values()].find(it => it.uri === uri && it.match === match);
+        if (existing && (invoke === 'single' || existing.invoke !== invoke)) {
+            sendError(session, WampMessageEnum.REGISTER, requestId, 'wamp.error.procedure_already_exists');
+            return;
+        }
+        const registration: Registration = existing || { id: newId(), uri, match, invoke, callees: [], nextCallee: 0 };
+        registration.callees.push(session);
+        realm.registrations.set(registration.id, registration);
+        session.send([WampMessageEnum.REGISTERED, requestId, registration.id]);
+    };
+
+    const unregister = (session: Session, realm: Realm, [, requestId, registrationId]: any[]) => {
+        const registration = realm.registrations.get(registrationId);
+        if (!registration || !registration.callees.includes(session)) {
+            sendError(session, WampMessageEnum.UNREGISTER, requestId, 'wamp.error.no_such_registration');
+            return;
+        }
+        removeCallee(realm, registration, session);
+        session.send([WampMessageEnum.UNREGISTERED, requestId]);
+    };
+
+    const findRegistration = (realm: Realm, uri: string) => {
+        const candidates = [...realm.registrations.values()]
+            .filter(registration => uriMatches(registration.match, registration.uri, uri))
+            .sort((a, b) => matchPrecedence.indexOf(a.match) - matchPrecedence.indexOf(b.match)
+                || b.uri.length - a.uri.length);
+        return candidates[0];
+    };
+
+    const selectCallee = (registration: Registration) => {
+        const { callees } = registration;
+        switch (registration.invoke) {
+            case 'roundrobin':
+                return callees[registration.nextCallee++ % callees.length];
+            case 'random':
+                return callees[Math.floor(Math.random() * callees.length)];
+            case 'last':
+                return callees[callees.length - 1];
+            default:
+                return callees[0];
+        }
+    };
+
+    const finishInvocation = (realm: Realm, invocation: Invocation) => {
+        clearTimeout(invocation.timeout);
+        realm.invocations.delete(invocation.id);
+        if (invocation.progressive) {
+            invocation.caller.finishedCalls.add(invocation.callRequestId);
+        }
+    };
+
+    // When the callee finished before it got all input, it is told no more input follows
+    const finishEarly = (realm: Realm, invocation: Invocation) => {
+        if (invocation.progressive) {
+            invocation.callee.send([WampMessageEnum.INTERRUPT, invocation.id, { mode: 'killnowait' }]);
+        }
+        finishInvocation(realm, invocation);
+    };
+
+    const call = (session: Session, realm: Realm, [, requestId, options, uri, args, kwargs]: any[]) => {
+        const running = [...realm.invocations.values()]
+            .find(it => it.caller === session && it.callRequestId === requestId);
+        if (session.finishedCalls.has(requestId)) {
+            // Input which is too late, up to and including the final part
+            if (!options.progress) {
+                session.finishedCalls.delete(requestId);
+            }
+            return;
+        }
+        if (running) {
+            // Next input of a progressive call
+            if (running.progressive) {
+                running.progressive = !!options.progress;
+                const details: Dict = pptDetails(options);
+                if (options.progress) {
+                    details.progress = true;
+                }
+                running.callee.send(trimArray([WampMessageEnum.INVOCATION, running.id, running.registrationId, details, args, kwargs]));
+            }
+            return;
+        }
+        const registration = findRegistration(realm, uri);
+        if (!registration) {
+            sendError(session, WampMessageEnum.CALL, requestId, 'wamp.error.no_such_procedure', [`No procedure registered for ${uri}`]);
+            return;
+        }
+        const callee = selectCallee(registration);
+        const invocation: Invocation = { id: newId(), caller: session, callRequestId: requestId, callee, registrationId: registration.id,
+            receiveProgress: !!options.receive_progress, progressive: !!options.progress };
+        realm.invocations.set(invocation.id, invocation);
+
+        const details: Dict = pptDetails(options);
+        if (registration.match !== 'exact') {
+            details.procedure = uri;
+        }
+        if (options.receive_progress) {
+            details.receive_progress = true;
+        }
+        if (options.progress) {
+            details.progress = true;
+        }
+        if (options.timeout > 0) {
+            details.timeout = options.timeout;
+            invocation.timeout = setTimeout(() => {
+                finishInvocation(realm, invocation);
+                callee.send([WampMessageEnum.INTERRUPT, invocation.id, { mode: 'killnowait', reason: 'wamp.error.timeout' }]);
+                sendError(session, WampMessageEnum.CALL, requestId, 'wamp.error.timeout', ['Call timed out']);
+            }, options.timeout);
+        }
+        if (options.disclose_me) {
+            details.caller = session.id;
+            details.caller_authid = session.authid;
+            details.caller_authrole = session.authrole;
+        }
+        callee.send(trimArray([WampMessageEnum.INVOCATION, invocation.id, registration.id, details, args, kwargs]));
+    };
+
+    const findInvocation = (session: Session, realm: Realm, invocationId: number) => {
+        const invocation = realm.invocations.get(invocationId);
+        // Can be missing legitimately, when the call was canceled in the mean time
+        return invocation && invocation.callee === session ? invocation : undefined;
+    };
+
+    const yieldResult = (session: Session, realm: Realm, [, invocationId, options, args, kwargs]: any[]) => {
+        const invocation = findInvocation(session, realm, invocationId);
+        if (!invocation) {
+            return;
+        }
+        if (options.progress) {
+            if (invocation.receiveProgress) {
+                invocation.caller.send(trimArray([WampMessageEnum.RESULT, invocation.callRequestId,
+                    { progress: true, ...pptDetails(options) }, args, kwargs]));
+            }
+            return;
+        }
+        finishEarly(realm, invocation);
+        invocation.caller.send(trimArray([WampMessageEnum.RESULT, invocation.callRequestId, pptDetails(options), args, kwargs]));
+    };
+
+    const invocationError = (session: Session, realm: Realm, [,, invocationId, details, error, args, kwargs]: any[]) => {
+        const invocation = findInvocation(session, realm, invocationId);
+        if (!invocation) {
+            return;
+        }
+        finishEarly(realm, invocation);
+        sendError(invocation.caller, WampMessageEnum.CALL, invocation.callRequestId, error, args, kwargs, details);
+    };
+
+    const cancel = (session: Session, realm: Realm, [, requestId, options]: any[]) => {
+        // A canceling caller sends no more input
+        session.finishedCalls.delete(requestId);
+        const invocation = [...realm.invocations.values()]
+            .find(it => it.caller === session && it.callRequestId === requestId);
+        if (!invocation) {
+            return;
+        }
+        invocation.progressive = false;
+        const mode = options.mode || 'killnowait';
+        if (mode !== 'skip') {
+            invocation.callee.send([WampMessageEnum.INTERRUPT, invocation.id, { mode }]);
+        }
+        // With mode kill, the error of the callee is passed to the caller
+        if (mode !== 'kill') {
+            finishInvocation(realm, invocation);
+            sendError(session, WampMessageEnum.CALL, requestId, 'wamp.error.canceled', ['Call canceled']);
+        }
+    };
+
+    // *** Broker
+
+    const subscribe = (session: Session, realm: Realm, [, requestId, options, uri]: any[]) => {
+        const match: MatchPolicy = options.match || 'exact';
+        let subscription = [...realm.subscriptions.values()].find(it => it.uri === uri && it.match === match);
+        if (!subscription) {
+            subscription = { id: newId(), uri, match, subscribers: new Set() };
+            realm.subscriptions.set(subscription.id, subscription);
+        }
+        subscription.subscribers.add(session);
+        session.send([WampMessageEnum.SUBSCRIBED, requestId, subscription.id]);
+
+        if (options.get_retained) {
+            realm.retained.forEach((event, topic) => {
+                if (uriMatches(match, uri, topic)) {
+                    sendEvent(subscription!, session, newId(), topic, event.publisher, event.options, event.args, event.kwargs, true);
+                }
+            });
+        }
+    };
+
+    const unsubscribe = (session: Session, realm: Realm, [, requestId, subscriptionId]: any[]) => {
+        const subscription = realm.subscriptions.get(subscriptionId);
+        if (!subscription || !subscription.subscribers.has(session)) {
+            sendError(session, WampMessageEnum.UNSUBSCRIBE, requestId, 'wamp.error.no_such_subscription');
+            return;
+        }
+        subscription.subscribers.delete(session);
+        if (subscription.subscribers.size === 0) {
+            realm.subscriptions.delete(subscription.id);
+        }
+        session.send([WampMessageEnum.UNSUBSCRIBED, requestId]);
+    };
+
+    const sendEvent = (subscription: Subscription, subscriber: Session, publicationId: number, topic: string,
+        publisher: Session, options: Dict, args?: Args, kwargs?: Dict, retained?: boolean) => {
+        const details: Dict = pptDetails(options);
+        if (subscription.match !== 'exact') {
+            details.topic = topic;
+        }
+        if (options.disclose_me) {
+            details.publisher = publisher.id;
+            details.publisher_authid = publisher.authid;
+            details.publisher_authrole = publisher.authrole;
+        }
+        if (retained) {
+            details.retained = true;
+        }
+        subscriber.send(trimArray([WampMessageEnum.EVENT, subscription.id, publicationId, details, args, kwargs]));
+    };
+
+    const isEligible = (subscriber: Session, publisher: Session, options: Dict) =>
+        !(subscriber === publisher && options.exclude_me !== false)
+        && (!options.eligible || options.eligible.includes(subscriber.id))
+        && (!options.eligible_authid || options.eligible_authid.includes(subscriber.authid))
+        && (!options.eligible_authrole || options.eligible_authrole.includes(subscriber.authrole))
+        && !(options.exclude || []).includes(subscriber.id)
+        && !(options.exclude_authid || []).includes(subscriber.authid)
+        && !(options.exclude_authrole || []).includes(subscriber.authrole);
+
+    const publish = (session: Session, realm: Realm, [, requestId, options, topic, args, kwargs]: any[]) => {
+        const publicationId = newId();
+        realm.subscriptions.forEach(subscription => {
+            if (uriMatches(subscription.match, subscription.uri, topic)) {
+                subscription.subscribers.forEach(subscriber => {
+                    if (isEligible(subscriber, session, options)) {
+                        sendEvent(subscription, subscriber, publicationId, topic, session, options, args, kwargs);
+                    }
+                });
+            }
+        });
+        if (options.retain) {
+            realm.retained.set(topic, { publisher: session, options, args, kwargs });
+        }
+        if (options.acknowledge) {
+            session.send([WampMessageEnum.PUBLISHED, requestId, publicationId]);
+        }
+    };
+
+    // *** Message handling
+
+    const handlers: {[msgType: number]: (session: Session, realm: Realm, msg: any[]) => void} = {
+        [WampMessageEnum.GOODBYE]: goodbye,
+        [WampMessageEnum.REGISTER]: register,
+        [WampMessageEnum.UNREGISTER]: unregister,
+        [WampMessageEnum.CALL]: call,
+        [WampMessageEnum.CANCEL]: cancel,
+        [WampMessageEnum.YIELD]: yieldResult,
+        [WampMessageEnum.ERROR]: invocationError,
+        [WampMessageEnum.SUBSCRIBE]: subscribe,
+        [WampMessageEnum.UNSUBSCRIBE]: unsubscribe,
+        [WampMessageEnum.PUBLISH]: publish
+    };
+
+    const handle = (session: Session, data: WampData) => {
+        try {
+            const msg = jsonSerializer.deserialize(data);
+            logger.log('receive', session.id, msg);
+            if (!Array.isArray(msg)) {
+                throw new ProtocolViolation('Message is not an array');
+            }
+            const [msgType] = msg;
+            if (msgType === WampMessageEnum.HELLO) {
+                hello(session, msg);
+                return;
+            }
+            const handler = handlers[msgType];
+            if (!session.realm || !handler) {
+                throw new ProtocolViolation(`Unexpected message type ${msgType}`);
+            }
+            handler(session, session.realm, msg);
+        } catch (e: any) {
+            logger.warn('Aborting session', session.id, e);
+            leave(session);
+            session.send([WampMessageEnum.ABORT, { message: e.message }, 'wamp.error.protocol_violation']);
+        }
+    };
+
+    const connect: MakeObservableWebSocket = () => new Observable<WampWebSocket>(observer => {
+        const receive$ = new Subject<WampData>();
+        const session: Session = {
+            id: newId(),
+            authid: '',
+            authrole: '',
+            finishedCalls: new Set(),
+            // Deliver asynchronously, like a real transport does
+            send: msg => queueMicrotask(() => {
+                logger.log('send', session.id, msg);
+                receive$.next(jsonSerializer.serialize(msg));
+            })
+        };
+        observer.next({
+            send: data => handle(session, data),
+            receive$,
+            protocol: jsonSerializer.protocol
+        });
+        return () => {
+            leave(session);
+            receive$.complete();
+        };
+    });
+
+    return {
+        connect,
+        get sessionCount() {
+            return [...realms.values()].reduce((count, realm) => count + realm.sessions.size, 0);
+        }
+    };
+};
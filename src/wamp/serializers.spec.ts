@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { jsonSerializer, msgpackSerializer, cborSerializer, selectSerializer, defaultSerializers } from './serializers';
+
+describe('serializers', () => {
+
+    const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+    const toHex = (bytes: string | Uint8Array) =>
+        Array.from(bytes as Uint8Array, byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const callMsg = [48, 2 ** 53 - 1, { receive_progress: true }, 'com.app.do_it',
+        [1, -1, 1.5, 'text', true, false, null, [1, [2]]], { nested: { deeper: 'value' }, 'ünicode': '✓' }];
+
+    describe('json', () => {
+        it('serializes to text', () => {
+            expect(jsonSerializer.protocol).toBe('wamp.2.json');
+            expect(jsonSerializer.serialize([1, 'realm1', {}])).toBe('[1,"realm1",{}]');
+        });
+
+        it('deserializes text and binary frames', () => {
+            expect(jsonSerializer.deserialize('[2,123,{}]')).toEqual([2, 123, {}]);
+            expect(jsonSerializer.deserialize(new TextEncoder().encode('[2,123,{}]').buffer)).toEqual([2, 123, {}]);
+        });
+
+        it('encodes binary values as base64 strings starting with a \\0', () => {
+            expect(jsonSerializer.serialize([16, 1, {}, 'topic', [new Uint8Array([1, 2, 255])]])).toBe('[16,1,{},"topic",["\\u0000AQL/"]]');
+            expect(jsonSerializer.deserialize('[36,1,2,{},["\\u0000AQL/","text"]]'))
+                .toEqual([36, 1, 2, {}, [new Uint8Array([1, 2, 255]), 'text']]);
+        });
+    });
+
+    describe('msgpack', () => {
+        const encode = (value: any) => toHex(msgpackSerializer.serialize(value as any[]));
+        const decode = (hex: string) => msgpackSerializer.deserialize(fromHex(hex));
+
+        it('encodes according to the spec', () => {
+            expect(encode([1, 'realm', {}])).toBe('9301a57265616c6d80');
+            expect(encode([127, 128, 256, 65536])).toBe('947fcc80cd0100ce00010000');
+            expect(encode([2 ** 32])).toBe('91cf0000000100000000');
+            expect(encode([-1, -33, -129, -32769])).toBe('94ffd0dfd1ff7fd2ffff7fff');
+            expect(encode([1.5, null, true, false])).toBe('94cb3ff8000000000000c0c3c2');
+            expect(encode([new Uint8Array([1, 2, 3])])).toBe('91c403010203');
+        });
+
+        it('decodes according to the spec', () => {
+            expect(decode('9301a57265616c6d80')).toEqual([1, 'realm', {}]);
+            expect(decode('91cf0000000100000000')).toEqual([2 ** 32]);
+            expect(decode('94ffd0dfd1ff7fd2ffff7fff')).toEqual([-1, -33, -129, -32769]);
+            expect(decode('92ca3fc00000c403010203')).toEqual([1.5, new Uint8Array([1, 2, 3])]);
+        });
+
+        it('roundtrips a WAMP message', () => {
+            const data = msgpackSerializer.serialize(callMsg);
+            expect(msgpackSerializer.deserialize((data as Uint8Array).slice().buffer)).toEqual(callMsg);
+        });
+
+        it('rejects malformed data', () => {
+            expect(() => decode('93')).toThrow('Unexpected end of data');
+            expect(() => decode('9001')).toThrow('Unexpected data after MessagePack value');
+            expect(() => msgpackSerializer.deserialize('[1]')).toThrow('Expected binary data but received text');
+        });
+    });
+
+    describe('cbor', () => {
+        const encode = (value: any) => toHex(cborSerializer.serialize(value as any[]));
+        const decode = (hex: string) => cborSerializer.deserialize(fromHex(hex));
+
+        // Examples from RFC 8949, appendix A
+        const examples: [any, string][] = [
+            [0, '00'], [23, '17'], [24, '1818'], [100, '1864'], [1000, '1903e8'],
+            [1000000, '1a000f4240'], [1000000000000, '1b000000e8d4a51000'],
+            [-1, '20'], [-1000, '3903e7'], [1.1, 'fb3ff199999999999a'],
+            [false, 'f4'], [true, 'f5'], [null, 'f6'],
+            ['a', '6161'], ['IETF', '6449455446'], [new Uint8Array([1, 2, 3, 4]), '4401020304'],
+            [[1, [2, 3], [4, 5]], '8301820203820405'], [{ a: 1, b: [2, 3] }, 'a26161016162820203']
+        ];
+
+        it('encodes according to the spec', () => {
+            examples.forEach(([value, hex]) => expect(encode(value)).toBe(hex));
+        });
+
+        it('decodes according to the spec', () => {
+            examples.forEach(([value, hex]) => expect(decode(hex)).toEqual(value));
+            expect(decode('f93c00')).toBe(1.0);
+            expect(decode('f97bff')).toBe(65504.0);
+            expect(decode('f90001')).toBe(5.960464477539063e-8);
+            expect(decode('fa47c35000')).toBe(100000.0);
+            expect(decode('c074323031332d30332d32315432303a30343a30305a')).toBe('2013-03-21T20:04:00Z');
+        });
+
+        it('decodes indefinite length items', () => {
+            expect(decode('9fff')).toEqual([]);
+            expect(decode('9f018202039f0405ffff')).toEqual([1, [2, 3], [4, 5]]);
+            expect(decode('bf61610161629f0203ffff')).toEqual({ a: 1, b: [2, 3] });
+            expect(decode('7f657374726561646d696e67ff')).toBe('streaming');
+        });
+
+        it('roundtrips a WAMP message', () => {
+            const data = cborSerializer.serialize(callMsg);
+            expect(cborSerializer.deserialize(data)).toEqual(callMsg);
+        });
+
+        it('rejects malformed data', () => {
+            expect(() => decode('83')).toThrow('Unexpected end of data');
+            expect(() => decode('8001')).toThrow('Unexpected data after CBOR value');
+        });
+    });
+
+    describe('selectSerializer', () => {
+        it('selects the serializer of the negotiated protocol', () => {
+            expect(selectSerializer(defaultSerializers, 'wamp.2.cbor')).toBe(cborSerializer);
+            expect(selectSerializer(defaultSerializers, 'wamp.2.msgpack')).toBe(msgpackSerializer);
+        });
+
+        it('falls back to the first serializer when no protocol was negotiated', () => {
+            expect(selectSerializer([msgpackSerializer, jsonSerializer])).toBe(msgpackSerializer);
+            expect(selectSerializer(defaultSerializers, '')).toBe(jsonSerializer);
+        });
+
+        it('rejects an unsupported protocol', () => {
+            expect(() => selectSerializer([jsonSerializer], 'wamp.2.ubjson'))
+                .toThrow('Router selected unsupported protocol wamp.2.ubjson');
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import { textDecoder, toUint8Array, toBase64, fromBase64 } from './bytes';
+import { encodeMsgpack, decodeMsgpack } from './msgpack';
+import { encodeCbor, decodeCbor } from './cbor';
+
+// Data of a single transport frame. Text for text based serializers, binary otherwise.
+export type WampData = string | ArrayBuffer | Uint8Array;
+
+// A message, or the payload of a message in payload passthru mode
+export type WampSerializable = any[] | {[key: string]: any};
+
+export interface WampSerializer {
+    // The WebSocket subprotocol of this serializer, e.g. 'wamp.2.json'
+    protocol: string;
+    serialize(msg: WampSerializable): string | Uint8Array;
+    deserialize(data: WampData): any;
+}
+
+// JSON has no binary type. So binary values are sent as a string of a \0 followed by the
+// base64 encoded bytes, as the WAMP RFC prescribes.
+export const jsonSerializer: WampSerializer = {
+    protocol: 'wamp.2.json',
+    serialize: msg => JSON.stringify(msg, (_, value) =>
+        value instanceof Uint8Array ? `\0${toBase64(value)}` : value),
+    deserialize: data => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data), (_, value) =>
+        typeof value === 'string' && value[0] === '\0' ? fromBase64(value.slice(1)) : value)
+};
+
+export const msgpackSerializer: WampSerializer = {
+    protocol: 'wamp.2.msgpack',
+    serialize: msg => encodeMsgpack(msg),
+    deserialize: data => decodeMsgpack(toUint8Array(data))
+};
+
+export const cborSerializer: WampSerializer = {
+    protocol: 'wamp.2.cbor',
+    serialize: msg => encodeCbor(msg),
+    deserialize: data => decodeCbor(toUint8Array(data))
+};
+
+export const defaultSerializers = [jsonSerializer, msgpackSerializer, cborSerializer];
+
+// Picks the serializer of the negotiated protocol. Falls back to the first one when
+// the transport didn't tell which one was negotiated.
+export const selectSerializer = (serializers: WampSerializer[], protocol?: string): WampSerializer => {
+    if (!protocol) {
+        return serializers[0];
+    }
+    const serializer = serializers.find(it => it.protocol === protocol);
+    if (!serializer) {
+        throw new Error(`Router selected unsupported protocol ${protocol}`);
+    }
+    return serializer;
+};
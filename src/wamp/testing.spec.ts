@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { lastValueFrom, toArray } from 'rxjs';
+import { connectWampChannel, WampMessageEnum, WampChannel, WampError, WampWebSocket } from './wamp';
+import { toPromise } from './extras';
+import { createFakeRouter, WampAssertionError } from './testing';
+
+describe('testing', () => {
+
+    const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('answers HELLO', async () => {
+        const router = createFakeRouter({ sessionId: 42 });
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        expect(channel.session.id).toBe(42);
+        expect(router.connected).toBe(true);
+        expect(router.sent).toEqual([]);
+    });
+
+    it('lets the test answer HELLO itself', async () => {
+        const router = createFakeRouter({ autoWelcome: false });
+        const channel = toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        await handleQueuedEvents();
+        router.expectSent([WampMessageEnum.HELLO, 'realm1', expect.any(Object)]);
+        router.receive([WampMessageEnum.WELCOME, 7, {}]);
+        expect((await channel).session.id).toBe(7);
+    });
+
+    it('asserts sent messages', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        channel.publish('topic', [1]);
+        const [[, reqId]] = router.expectSent([WampMessageEnum.PUBLISH, expect.any(Number), { acknowledge: true }, 'topic', [1]]);
+        expect(reqId).toEqual(expect.any(Number));
+        expect(router.sent).toEqual([]);
+    });
+
+    it('shows the difference when the client sent something else', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        channel.publish('topic', [1]);
+        let error: any;
+        try {
+            router.expectSent([WampMessageEnum.PUBLISH, expect.any(Number), { acknowledge: true }, 'topic', [2]]);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(WampAssertionError);
+        expect(error.showDiff).toBe(true);
+        expect(error.actual).toEqual([[WampMessageEnum.PUBLISH, expect.any(Number), { acknowledge: true }, 'topic', [1]]]);
+        expect(() => router.expectSent([WampMessageEnum.PUBLISH])).toThrow('Client did not send the expected messages');
+    });
+
+    it('injects incoming messages', async () => {
+        const router = createFakeRouter();
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        const events: any[] = [];
+        channel.subscribe('topic').subscribe(([args]) => events.push(args));
+        const [[, reqId]] = router.expectSent([WampMessageEnum.SUBSCRIBE, expect.any(Number), {}, 'topic']);
+        router.receive([WampMessageEnum.SUBSCRIBED, reqId, 5]);
+        router.receive([WampMessageEnum.EVENT, 5, 1, {}, ['hello']]);
+        expect(events).toEqual([['hello']]);
+    });
+
+    it('answers calls with canned results', async () => {
+        const router = createFakeRouter();
+        router.answerCall('add', [[3]]);
+        router.answerCall('count', [[1]], [[2]], [[3]]);
+        router.answerCall('nothing');
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        expect(await lastValueFrom(channel.call('add', [1, 2]))).toEqual([[3]]);
+        expect(await lastValueFrom(channel.call('count').pipe(toArray()))).toEqual([[[1]], [[2]], [[3]]]);
+        expect(await lastValueFrom(channel.call('nothing').pipe(toArray()))).toEqual([]);
+        expect(router.sent).toEqual([]);
+    });
+
+    it('answers calls with a canned error', async () => {
+        const router = createFakeRouter();
+        router.failCall('add', 'com.app.error', ['too large']);
+        const channel = await toPromise(connectWampChannel('', 'realm1', undefined, router.connect));
+        await expect(lastValueFrom(channel.call('add'))).rejects.toEqual(new WampError('com.app.error', ['too large']));
+    });
+
+    it('simulates a disconnect', async () => {
+        const router = createFakeRouter();
+        let error: any;
+        let channel: WampChannel | undefined;
+        connectWampChannel('', 'realm1', undefined, router.connect).subscribe({ next: it => channel = it, error: e => error = e });
+        await handleQueuedEvents();
+        expect(channel).toBeTruthy();
+        router.disconnect();
+        expect(router.connected).toBe(false);
+        expect(error).toEqual(new Error('Websocket disconnected'));
+    });
+
+    it('errors the transport before its messages on a disconnect, and drops what is sent after it', () => {
+        const router = createFakeRouter();
+        let ws!: WampWebSocket;
+        let transportError: any;
+        router.connect('', 'wamp.2.json').subscribe({ next: it => ws = it, error: e => transportError = e });
+        let receiveError: any;
+        let transportErroredFirst = false;
+        ws.receive$.subscribe({ error: e => {
+            receiveError = e;
+            transportErroredFirst = !!transportError;
+        }});
+
+        router.disconnect();
+        ws.send('[34,1,5]');
+        expect(router.sent).toEqual([]);
+        expect(transportError).toEqual(new Error('Websocket disconnected'));
+        expect(receiveError).toEqual(new Error('Websocket disconnected'));
+        // So a reconnecting channel knows the channel is lost before its subscriptions error
+        expect(transportErroredFirst).toBe(true);
+    });
+});
@@ -0,0 +1,176 @@
+import { Observable, Subject, Subscriber } from 'rxjs';
+import { Args, ArgsAndDict, Dict, MakeObservableWebSocket, WampMessageEnum, WampWebSocket, trimArray } from './wamp';
+import { WampData, jsonSerializer } from './serializers';
+
+// Test helpers, published as the 'wamprx/testing' entry point.
+// A fake router connection which lets tests script what the router does, and assert what
+// the client sends. It works with any test framework.
+
+export interface FakeRouterOptions {
+    // Session id and WELCOME details used to answer HELLO
+    sessionId?: number;
+    welcomeDetails?: Dict;
+    // When false, HELLO is not answered, so the test can answer it, e.g. with a CHALLENGE
+    autoWelcome?: boolean;
+}
+
+export interface FakeRouter {
+    // Fits the makeObservableWebSocket parameter of connectWampChannel(). Each subscription is
+    // a new connection. A WampWebSocket for createWampChannelFromWs() is emitted by it too.
+    connect: MakeObservableWebSocket;
+    // Whether a client is connected
+    readonly connected: boolean;
+    // Messages sent by the client which were not yet checked by expectSent().
+    // Messages answered by the fake router itself are not recorded.
+    readonly sent: any[][];
+    // Asserts the client sent exactly these messages since the last check, and returns them.
+    // Expected values can be asymmetric matchers like expect.any(Number).
+    expectSent(...expected: any[][]): any[][];
+    // Delivers a message from the router to the client immediately
+    receive(msg: any[]): void;
+    // Drops the connection, like a websocket closing unexpectedly. What the client sends
+    // over it afterwards is not recorded.
+    disconnect(error?: any): void;
+    // Answers each call to uri with the given results. All but the last one are sent
+    // as progressive results when the caller asked for them.
+    answerCall(uri: string, ...results: ArgsAndDict[]): void;
+    // Answers each call to uri with an error
+    failCall(uri: string, error: string, args?: Args, dict?: Dict): void;
+}
+
+// Thrown by expectSent(). Test frameworks show a diff of actual and expected.
+export class WampAssertionError extends Error {
+    readonly showDiff = true;
+
+    constructor(message: string, public readonly actual: any, public readonly expected: any) {
+        super(message);
+        this.name = 'WampAssertionError';
+    }
+}
+
+export const defaultWelcomeDetails: Dict = {
+    roles: {
+        broker: {},
+        dealer: { features: { progressive_call_results: true, progressive_call_invocations: true, call_canceling: true } }
+    }
+};
+
+const matches = (actual: any, expected: any): boolean => {
+    if (expected && typeof expected.asymmetricMatch === 'function') {
+        return expected.asymmetricMatch(actual);
+    }
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual)
+            && actual.length === expected.length
+            && expected.every((item, i) => matches(actual[i], item));
+    }
+    if (expected && typeof expected === 'object') {
+        return !!actual && typeof actual === 'object' && !Array.isArray(actual)
+            && Object.keys(actual).length === Object.keys(expected).length
+            && Object.keys(expected).every(key => key in actual && matches(actual[key], expected[key]));
+    }
+    return Object.is(actual, expected);
+};
+
+export const createFakeRouter = (options: FakeRouterOptions = {}): FakeRouter => {
+    const { sessionId = 123, welcomeDetails = defaultWelcomeDetails, autoWelcome = true } = options;
+    const sent: any[][] = [];
+    const answers = new Map<string, (reqId: number, callOptions: Dict) => void>();
+    let connection: { receive$: Subject<WampData>, observer: Subscriber<WampWebSocket>, lost: boolean } | undefined;
+
+    const receive = (msg: any[]) => {
+        if (!connection) {
+            throw new Error('Fake router is not connected');
+        }
+        connection.receive$.next(jsonSerializer.serialize(msg));
+    };
+
+    // The client subscribes to incoming messages only after sending, so replies are
+    // delivered asynchronously, like a real transport does.
+    const reply = (msg: any[]) => queueMicrotask(() => connection && receive(msg));
+
+    const handle = (msg: any[]) => {
+        const [msgType] = msg;
+        if (msgType === WampMessageEnum.HELLO && autoWelcome) {
+            reply([WampMessageEnum.WELCOME, sessionId, welcomeDetails]);
+        } else if (msgType === WampMessageEnum.CALL && answers.has(msg[3])) {
+            answers.get(msg[3])!(msg[1], msg[2]);
+        } else {
+            sent.push(msg);
+        }
+    };
+
+    const connect: MakeObservableWebSocket = () => new Observable<WampWebSocket>(observer => {
+        const receive$ = new Subject<WampData>();
+        const current = connection = { receive$, observer, lost: false };
+        observer.next({
+            // Like a closed websocket, a lost connection drops what is sent
+            send: data => {
+                if (!current.lost) {
+                    handle(jsonSerializer.deserialize(data));
+                }
+            },
+            receive$,
+            protocol: jsonSerializer.protocol
+        });
+        return () => {
+            if (connection === current) {
+                connection = undefined;
+            }
+            // After a disconnect, receive$ errors instead
+            if (!current.lost) {
+                receive$.complete();
+            }
+        };
+    });
+
+    const expectSent = (...expected: any[][]) => {
+        const actual = sent.splice(0, sent.length);
+        if (!matches(actual, expected)) {
+            throw new WampAssertionError('Client did not send the expected messages', actual, expected);
+        }
+        return actual;
+    };
+
+    const disconnect = (error: any = new Error('Websocket disconnected')) => {
+        if (!connection) {
+            throw new Error('Fake router is not connected');
+        }
+        const { receive$, observer } = connection;
+        connection.lost = true;
+        connection = undefined;
+        // Like a real transport, which errors before its messages do
+        observer.error(error);
+        receive$.error(error);
+    };
+
+    const answerCall = (uri: string, ...results: ArgsAndDict[]) =>
+        answers.set(uri, (reqId, callOptions) => {
+            // Without results, the call completes without emitting
+            const replies: ArgsAndDict[] = results.length > 0 ? results : [[]];
+            const last = replies.length - 1;
+            replies.forEach(([args, dict], i) => {
+                if (i < last && !callOptions.receive_progress) {
+                    return;
+                }
+                reply(trimArray([WampMessageEnum.RESULT, reqId, i < last ? { progress: true } : {}, args, dict]));
+            });
+        });
+
+    const failCall = (uri: string, error: string, args?: Args, dict?: Dict) =>
+        answers.set(uri, reqId =>
+            reply(trimArray([WampMessageEnum.ERROR, WampMessageEnum.CALL, reqId, {}, error, args, dict])));
+
+    return {
+        connect,
+        get connected() {
+            return !!connection;
+        },
+        sent,
+        expectSent,
+        receive,
+        disconnect,
+        answerCall,
+        failCall
+    };
+};
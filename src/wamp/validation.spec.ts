@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { of, lastValueFrom } from 'rxjs';
+import { ArgsAndDict, WampError } from './wamp';
+import { validateArgs, validateResult, withArgsValidation } from './validation';
+
+describe('validation', () => {
+
+    const isNumberPair = (args: any[]) => args.length === 2 && args.every(arg => typeof arg === 'number');
+    // Mimics a schema library like zod
+    const nameSchema = {
+        parse: (value: any) => {
+            if (typeof value.name !== 'string') {
+                throw new Error('name must be a string');
+            }
+            return value;
+        }
+    };
+
+    describe('validateArgs', () => {
+        it('accepts valid args and kwargs', () => {
+            expect(validateArgs({ args: isNumberPair, kwargs: nameSchema }, [1, 2], { name: 'x' })).toBeUndefined();
+            expect(validateArgs({}, ['anything'])).toBeUndefined();
+        });
+
+        it('describes what is invalid', () => {
+            expect(validateArgs({ args: isNumberPair }, [1, '2'])).toBe('Invalid args');
+            expect(validateArgs({ args: () => 'expected 2 numbers' }, [])).toBe('Invalid args: expected 2 numbers');
+            expect(validateArgs({ kwargs: nameSchema }, [], { name: 1 })).toBe('Invalid kwargs: name must be a string');
+        });
+
+        it('validates missing args and kwargs as empty ones', () => {
+            const args = vi.fn(() => true);
+            const kwargs = vi.fn(() => true);
+            validateArgs({ args, kwargs });
+            expect(args).toHaveBeenCalledWith([]);
+            expect(kwargs).toHaveBeenCalledWith({});
+        });
+    });
+
+    describe('withArgsValidation', () => {
+        it('calls the function with valid arguments', async () => {
+            const func = withArgsValidation({ args: isNumberPair }, args => of([[args![0] + args![1]]]));
+            expect(await lastValueFrom(func([1, 2]))).toEqual([[3]]);
+        });
+
+        it('rejects an invocation with invalid arguments', async () => {
+            const func = vi.fn(() => of<[ArgsAndDict]>([]));
+            await expect(lastValueFrom(withArgsValidation({ kwargs: nameSchema }, func)([], {})))
+                .rejects.toEqual(new WampError('wamp.error.invalid_argument', ['Invalid kwargs: name must be a string']));
+            expect(func).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('validateResult', () => {
+        it('passes valid results', async () => {
+            expect(await lastValueFrom(of<[any[]]>([[1, 2]]).pipe(validateResult({ args: isNumberPair })))).toEqual([[1, 2], undefined]);
+        });
+
+        it('errors on an invalid result', async () => {
+            await expect(lastValueFrom(of<[any[]]>([['1']]).pipe(validateResult({ args: isNumberPair }))))
+                .rejects.toEqual(new WampError('wamp.error.invalid_argument', ['Invalid result args']));
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import { Observable, mergeMap, of, throwError } from 'rxjs';
+import { Args, ArgsAndDict, Dict, RegisteredFunc, WampError } from './wamp';
+
+// Runtime validation of invocation arguments and call results.
+
+// Either a predicate, which returns false or a message describing the problem when the value
+// is invalid, or a schema with a parse() method which throws when it is invalid (like zod).
+export type Validator =
+    ((value: any) => boolean | string | void) |
+    { parse(value: unknown): unknown };
+
+export interface ArgsValidation {
+    args?: Validator;
+    kwargs?: Validator;
+}
+
+const check = (validator: Validator | undefined, value: any, what: string): string | undefined => {
+    if (!validator) {
+        return undefined;
+    }
+    try {
+        if (typeof validator !== 'function') {
+            validator.parse(value);
+            return undefined;
+        }
+        const result = validator(value);
+        if (result === false) {
+            return `Invalid ${what}`;
+        }
+        return typeof result === 'string' ? `Invalid ${what}: ${result}` : undefined;
+    } catch (e: any) {
+        return `Invalid ${what}: ${e.message}`;
+    }
+};
+
+// Returns what is wrong with args and kwargs, or undefined when they are valid.
+// Missing args and kwargs are validated as empty ones.
+export const validateArgs = (validation: ArgsValidation, args?: Args, kwargs?: Dict, what = ''): string | undefined =>
+    check(validation.args, args || [], `${what}args`) || check(validation.kwargs, kwargs || {}, `${what}kwargs`);
+
+// Wraps a function to register, so it is only called with valid arguments.
+// Invalid invocations are rejected with 'wamp.error.invalid_argument'.
+export const withArgsValidation = (validation: ArgsValidation, func: RegisteredFunc): RegisteredFunc =>
+    (args, kwargs, details) => {
+        const problem = validateArgs(validation, args, kwargs);
+        return problem
+            ? throwError(() => new WampError('wamp.error.invalid_argument', [problem]))
+            : func(args, kwargs, details);
+    };
+
+// Operator validating the results of a call. An invalid result errors the call like an
+// error response with 'wamp.error.invalid_argument' would.
+export const validateResult = (validation: ArgsValidation) => (result$: Observable<ArgsAndDict>) =>
+    result$.pipe(mergeMap(([args, kwargs]) => {
+        const problem = validateArgs(validation, args, kwargs, 'result ');
+        return problem
+            ? throwError(() => new WampError('wamp.error.invalid_argument', [problem]))
+            : of<ArgsAndDict>([args, kwargs]);
+    }));
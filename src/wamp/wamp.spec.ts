@@ -1,8 +1,11 @@
 import { describe, it, expect, vi } from 'vitest';
-import { Observable, Subject, of, concat, never, Subscription } from 'rxjs';
-import { WampWebSocket, connectWampChannel, WampChannel, createWampChannelFromWs,
-    makeNullLogger, LoginAuth, ArgsAndDict, makeConsoleLogger } from './wamp';
-import { toArray } from 'rxjs';
+import { Observable, Subject, of, concat, never, Subscription, throwError, EMPTY } from 'rxjs';
+import { WampWebSocket, connectWampChannel, WampChannel, createWampChannelFromWs, IWebSocket, makeObservableWebSocket,
+    makeNullLogger, LoginAuth, ArgsAndDict, makeConsoleLogger, WampSessionClosedError,
+    WampProtocolViolationError, WampError, RegisterOptions, InvocationDetails, WampMessageEnum } from './wamp';
+import { WampMetrics } from './metrics';
+import { msgpackSerializer } from './serializers';
+import { toArray, map } from 'rxjs';
 
 describe('wamp', () => {
 
@@ -15,14 +18,16 @@ describe('wamp', () => {
 
     const handleQueuedEvents = () => new Promise(resolve => setTimeout(resolve, 0));
 
-    const prepareWampChannel = async () => {
+    const defaultWelcome = '[2, 123, {"roles":{"broker":{},"dealer":{"features":{"progressive_call_results":true,"call_canceling":true}}}}]';
+
+    const prepareWampChannel = async (welcome = defaultWelcome) => {
         const receive$ = new Subject<string>();
         const mockWebSocket = makeMockWebSocket(receive$);
         const makeLogger = makeNullLogger;
         // Uncomment this to enable logging
         // const makeLogger = makeConsoleLogger;
         const channelPromise = createWampChannelFromWs(mockWebSocket, 'fakeRealm', undefined, makeLogger, 100);
-        receive$.next('[2, 123, {}]');
+        receive$.next(welcome);
         await Promise.resolve();
         vi.spyOn(mockWebSocket, 'send');
 
@@ -48,8 +53,8 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
             expect(mockWebSocket.send).toHaveBeenCalledWith(
                 '[1,"fakeRealm",{"roles":{' +
-                '"caller":{"features":{"progressive_call_results":true,"call_canceling":true}},' +
-                '"callee":{"features":{"progressive_call_results":true,"call_canceling":true}},' +
+                '"caller":{"features":{"progressive_call_results":true,"progressive_call_invocations":true,"call_canceling":true}},' +
+                '"callee":{"features":{"progressive_call_results":true,"progressive_call_invocations":true,"call_canceling":true}},' +
                 '"subscriber":{},' +
                 '"publisher":{}' +
                 '}}]');
@@ -63,6 +68,14 @@ describe('wamp', () => {
             expect(channel).toBeTruthy();
         });
 
+        it('fails with a WampError when the router aborts the login', async () => {
+            const receive$ = new Subject<string>();
+            const channelPromise = createWampChannelFromWs(makeMockWebSocket(receive$), 'fakeRealm');
+            receive$.next('[3,{"message":"The realm does not exist."},"wamp.error.no_such_realm"]');
+            await expect(channelPromise).rejects.toEqual(
+                new WampError('wamp.error.no_such_realm', undefined, undefined, { message: 'The realm does not exist.' }));
+        });
+
         it('will not login when challenged and auth not provided', async () => {
             const receive$ = new Subject<string>();
             const mockWebSocket = makeMockWebSocket(receive$);
@@ -109,8 +122,8 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
             expect(mockWebSocket.send).toHaveBeenCalledWith(
                 '[1,"fakeRealm",{"roles":{' +
-                    '"caller":{"features":{"progressive_call_results":true,"call_canceling":true}},' +
-                    '"callee":{"features":{"progressive_call_results":true,"call_canceling":true}},' +
+                    '"caller":{"features":{"progressive_call_results":true,"progressive_call_invocations":true,"call_canceling":true}},' +
+                    '"callee":{"features":{"progressive_call_results":true,"progressive_call_invocations":true,"call_canceling":true}},' +
                     '"subscriber":{},' +
                     '"publisher":{}' +
                 '},' +
@@ -133,6 +146,309 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
             expect(channel).toBeTruthy();
         });
+
+        it('sends authextra and waits for an async challenge response', async () => {
+            const receive$ = new Subject<string>();
+            const mockWebSocket = makeMockWebSocket(receive$);
+            vi.spyOn(mockWebSocket, 'send');
+            const connectWebSocket = connectMockWebSocket(concat(of(mockWebSocket), never()));
+
+            const auth: LoginAuth = {
+                authid: 'myId',
+                authmethods: ['cryptosign'],
+                authextra: { pubkey: 'abcd' },
+                challenge: () => Promise.resolve('signature')
+            };
+
+            let channel: WampChannel | null = null;
+            connectWampChannel('fakeurl', 'fakeRealm', auth, connectWebSocket).subscribe(newChannel => channel = newChannel);
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining(
+                '"authid":"myId","authmethods":["cryptosign"],"authextra":{"pubkey":"abcd"}}]'));
+
+            receive$.next('[4, "cryptosign", {"challenge": "1234"}]');
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[5,"signature",{}]');
+
+            receive$.next('[2, 123, {}]');
+            await handleQueuedEvents();
+            expect(channel).toBeTruthy();
+        });
+    });
+
+    describe("serialization", () => {
+        it('offers all serializers to the router', async () => {
+            const makeObservableWebSocket = vi.fn().mockReturnValue(never());
+            connectWampChannel('fakeurl', 'fakeRealm', undefined, makeObservableWebSocket).subscribe();
+            expect(makeObservableWebSocket).toHaveBeenCalledWith('fakeurl', 'wamp.2.json', ['wamp.2.json', 'wamp.2.msgpack', 'wamp.2.cbor']);
+        });
+
+        it('uses the serializer the router selected', async () => {
+            const receive$ = new Subject<Uint8Array>();
+            const mockWebSocket: WampWebSocket = { send: () => {}, receive$, protocol: 'wamp.2.msgpack' };
+            vi.spyOn(mockWebSocket, 'send');
+            const connectWebSocket = connectMockWebSocket(concat(of(mockWebSocket), never()));
+
+            let channel: WampChannel | null = null;
+            connectWampChannel('fakeurl', 'fakeRealm', undefined, connectWebSocket).subscribe(newChannel => channel = newChannel);
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenCalledWith(msgpackSerializer.serialize(
+                [1, 'fakeRealm', { roles: {
+                    caller: { features: { progressive_call_results: true, progressive_call_invocations: true, call_canceling: true }},
+                    callee: { features: { progressive_call_results: true, progressive_call_invocations: true, call_canceling: true }},
+                    subscriber: {},
+                    publisher: {}
+                }}]));
+
+            receive$.next(msgpackSerializer.serialize([2, 123, {}]) as Uint8Array);
+            await handleQueuedEvents();
+            expect(channel).toBeTruthy();
+        });
+    });
+
+    describe("session", () => {
+        it('exposes the session information', async () => {
+            const { channel } = await prepareWampChannel(
+                '[2,9876,{"authid":"joe","authrole":"user","authmethod":"ticket","roles":{"dealer":{"features":{"call_canceling":true}}}}]');
+            expect(channel.session).toEqual({
+                id: 9876,
+                authid: 'joe',
+                authrole: 'user',
+                authmethod: 'ticket',
+                roles: { dealer: { features: { call_canceling: true } } }
+            });
+        });
+
+        it('does not request progressive results when the dealer does not support them', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel('[2,123,{"roles":{"dealer":{}}}]');
+            channel.call('thing', ['arg']).subscribe();
+            channel.register('my.function', () => EMPTY);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[48,101,{},"thing",["arg"]]');
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[64,102,{},"my.function"]');
+        });
+
+        it('does not cancel a call when the dealer does not support it', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel('[2,123,{"roles":{"dealer":{}}}]');
+            const subscription = channel.call('thing', ['arg']).subscribe();
+            subscription.unsubscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("session end", () => {
+        it('closes a session gracefully', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let closed = false;
+            let ended = false;
+            channel.closed$.subscribe({ complete: () => ended = true });
+            channel.close().then(() => closed = true);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[6,{},"wamp.close.close_realm"]');
+            await handleQueuedEvents();
+            expect(closed).toBeFalsy();
+            expect(ended).toBeFalsy();
+
+            receive$.next('[6,{},"wamp.close.goodbye_and_out"]');
+            await handleQueuedEvents();
+            expect(closed).toBeTruthy();
+            expect(ended).toBeTruthy();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+        });
+
+        it('closes with a reason and message', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.close('wamp.close.system_shutdown', 'Bye!');
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[6,{"message":"Bye!"},"wamp.close.system_shutdown"]');
+        });
+
+        it('ends when the router says goodbye', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let error: any;
+            channel.closed$.subscribe({ error: e => error = e });
+
+            receive$.next('[6,{"message":"Shutting down"},"wamp.close.system_shutdown"]');
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[6,{},"wamp.close.goodbye_and_out"]');
+            expect(error).toEqual(expect.any(WampSessionClosedError));
+            expect(error).toEqual(expect.any(WampError));
+            expect(error.reason).toBe('wamp.close.system_shutdown');
+            expect(error.uri).toBe('wamp.close.system_shutdown');
+            expect(error.message).toBe('Shutting down');
+        });
+
+        it('replies to the goodbye of the router only once', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const errors: any[] = [];
+            channel.closed$.subscribe({ error: e => errors.push(e) });
+            channel.closed$.subscribe({ error: e => errors.push(e) });
+
+            receive$.next('[6,{},"wamp.close.system_shutdown"]');
+            await handleQueuedEvents();
+            channel.closed$.subscribe({ error: e => errors.push(e) });
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[6,{},"wamp.close.goodbye_and_out"]');
+            expect(errors).toEqual([1, 2, 3].map(() => expect.any(WampSessionClosedError)));
+        });
+
+        it('stops waiting for the goodbye of the router after a timeout', async () => {
+            const { channel } = await prepareWampChannel();
+            vi.useFakeTimers();
+            try {
+                let closed = false;
+                let ended = false;
+                channel.closed$.subscribe({ complete: () => ended = true });
+                channel.close().then(() => closed = true);
+                await vi.advanceTimersByTimeAsync(9999);
+                expect(closed).toBeFalsy();
+                await vi.advanceTimersByTimeAsync(1);
+                expect(closed).toBeTruthy();
+                expect(ended).toBeTruthy();
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('ends when the router aborts', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let error: any;
+            channel.closed$.subscribe({ error: e => error = e });
+
+            receive$.next('[3,{},"wamp.error.protocol_violation"]');
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(0);
+            expect(error).toEqual(expect.any(WampSessionClosedError));
+            expect(error.reason).toBe('wamp.error.protocol_violation');
+        });
+
+        it('completes the channel observable when closed', async () => {
+            const receive$ = new Subject<string>();
+            const mockWebSocket = makeMockWebSocket(receive$);
+            const connectWebSocket = connectMockWebSocket(concat(of(mockWebSocket), never()));
+
+            let channel: WampChannel | null = null;
+            let completed = false;
+            connectWampChannel('fakeurl', 'fakeRealm', undefined, connectWebSocket)
+                .subscribe({ next: newChannel => channel = newChannel, complete: () => completed = true });
+            receive$.next('[2, 123, {}]');
+            await handleQueuedEvents();
+
+            channel!.close();
+            await handleQueuedEvents();
+            expect(completed).toBeFalsy();
+            receive$.next('[6,{},"wamp.close.goodbye_and_out"]');
+            await handleQueuedEvents();
+            expect(completed).toBeTruthy();
+        });
+
+        describe('with calls and subscriptions pending', () => {
+            const prepareOperations = async () => {
+                const ws: IWebSocket = { onclose: null, onerror: null, onmessage: null, onopen: null, close: vi.fn(), send: vi.fn() };
+                const receive = (data: string) => ws.onmessage!({ data });
+                let channel!: WampChannel;
+                connectWampChannel('fakeurl', 'fakeRealm', undefined, makeObservableWebSocket(() => ws))
+                    .subscribe({ next: it => channel = it, error: () => {} });
+                ws.onopen!();
+                receive(defaultWelcome);
+                await handleQueuedEvents();
+
+                let callError: any;
+                let subscriptionCompleted = false;
+                channel.call('thing').subscribe({ error: e => callError = e });
+                channel.subscribe('topic').subscribe({ complete: () => subscriptionCompleted = true });
+                const [, subscribeReqId] = JSON.parse(vi.mocked(ws.send).mock.lastCall![0] as string);
+                receive(`[33,${subscribeReqId},5]`);
+                return { ws, receive, channel, getCallError: () => callError, isSubscriptionCompleted: () => subscriptionCompleted };
+            };
+
+            it('ends them and closes the websocket when closed', async () => {
+                const { ws, receive, channel, getCallError, isSubscriptionCompleted } = await prepareOperations();
+                channel.close();
+                receive('[6,{},"wamp.close.goodbye_and_out"]');
+                await handleQueuedEvents();
+                expect(getCallError()).toEqual(expect.any(WampSessionClosedError));
+                expect(isSubscriptionCompleted()).toBe(true);
+                expect(ws.close).toHaveBeenCalledTimes(1);
+            });
+
+            it('ends them and closes the websocket when the router says goodbye', async () => {
+                const { ws, receive, getCallError, isSubscriptionCompleted } = await prepareOperations();
+                receive('[6,{},"wamp.close.system_shutdown"]');
+                await handleQueuedEvents();
+                expect(getCallError()).toEqual(expect.any(WampSessionClosedError));
+                expect(getCallError().reason).toBe('wamp.close.system_shutdown');
+                expect(isSubscriptionCompleted()).toBe(true);
+                expect(ws.close).toHaveBeenCalledTimes(1);
+                // Not unsubscribed anymore, as the session is over
+                expect(ws.send).toHaveBeenLastCalledWith('[6,{},"wamp.close.goodbye_and_out"]');
+            });
+        });
+
+        it('errors the channel observable when the router says goodbye', async () => {
+            const receive$ = new Subject<string>();
+            const mockWebSocket = makeMockWebSocket(receive$);
+            const connectWebSocket = connectMockWebSocket(concat(of(mockWebSocket), never()));
+
+            let error: any;
+            connectWampChannel('fakeurl', 'fakeRealm', undefined, connectWebSocket)
+                .subscribe({ error: e => error = e });
+            receive$.next('[2, 123, {}]');
+            await handleQueuedEvents();
+
+            receive$.next('[6,{},"wamp.close.killed"]');
+            await handleQueuedEvents();
+            expect(error).toEqual(expect.any(WampSessionClosedError));
+            expect(error.reason).toBe('wamp.close.killed');
+        });
+    });
+
+    describe("protocol violation", () => {
+        const protocolViolation = (message: string) =>
+            JSON.stringify([3, { message }, 'wamp.error.protocol_violation']);
+
+        it('aborts on a malformed message', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let error: any;
+            channel.closed$.subscribe({ error: e => error = e });
+
+            receive$.next('[50,101,');
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith(
+                expect.stringMatching(/^\[3,\{"message":"Could not deserialize message: .*"\},"wamp.error.protocol_violation"\]$/));
+            expect(error).toEqual(expect.any(WampProtocolViolationError));
+            expect(error).toEqual(expect.any(WampSessionClosedError));
+            expect(error.reason).toBe('wamp.error.protocol_violation');
+        });
+
+        it('aborts on a wrongly shaped message and errors pending requests', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let error: any;
+            channel.call('thing').subscribe({ error: e => error = e });
+
+            receive$.next('[50,"101",{}]');
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith(protocolViolation('Received RESULT message with invalid field 1'));
+            expect(error).toEqual(new WampProtocolViolationError('Received RESULT message with invalid field 1'));
+        });
+
+        it('aborts on a message with missing fields', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            channel.closed$.subscribe({ error: () => {} });
+
+            receive$.next('[36,1,2]');
+            expect(mockWebSocket.send).toHaveBeenCalledWith(protocolViolation('Received EVENT message with 2 fields'));
+        });
+
+        it('reports an unexpected message type through the logger', async () => {
+            const receive$ = new Subject<string>();
+            const mockWebSocket = makeMockWebSocket(receive$);
+            vi.spyOn(mockWebSocket, 'send');
+            const logger = makeNullLogger();
+            vi.spyOn(logger, 'error');
+            const channelPromise = createWampChannelFromWs(mockWebSocket, 'fakeRealm', undefined, () => logger);
+
+            receive$.next('[48,1,{},"com.app.proc"]');
+            await expect(channelPromise).rejects.toEqual(new WampProtocolViolationError('Received unexpected message type 48'));
+            expect(logger.error).toHaveBeenCalledWith('Received unexpected message type 48', '[48,1,{},"com.app.proc"]');
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith(protocolViolation('Received unexpected message type 48'));
+        });
     });
 
     describe("RPC caller", () => {
@@ -234,7 +550,8 @@ describe('wamp', () => {
             receive$.next('[8,48,101,{},"wamp.something.invalid",["Some error has occurd!"]]');
             await handleQueuedEvents();
             expect(result).toEqual([]);
-            expect(error).toEqual([{}, 'wamp.something.invalid', [ 'Some error has occurd!' ]]);
+            expect(error).toEqual(new WampError('wamp.something.invalid', [ 'Some error has occurd!' ]));
+            expect(error.message).toBe('wamp.something.invalid: Some error has occurd!');
         });
 
         it('separates simultaneous calls', async () => {
@@ -267,6 +584,113 @@ describe('wamp', () => {
             expect(result1).toEqual([[['I hear you!']], [["end1"]]]);
             expect(result2).toEqual([[['I hear you', 'too!']], [["end2"]]]);
         });
+
+        it('passes call options', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+
+            channel.call('thing', ['arg'], undefined, { timeout: 1000, disclose_me: true }).subscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledWith(
+                '[48,101,{"receive_progress":true,"timeout":1000,"disclose_me":true},"thing",["arg"]]');
+        });
+
+        it('cancels a call with the requested mode', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+
+            const subscription = channel.call('thing', [], undefined, { cancelMode: 'killnowait' }).subscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[48,101,{"receive_progress":true},"thing",[]]');
+            subscription.unsubscribe();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[49,101,{"mode":"killnowait"}]');
+        });
+
+        it('cancels a call when it passes its deadline', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            vi.useFakeTimers();
+            try {
+                const result: any[] = [];
+                let error: any;
+                channel.call('thing', [], undefined, { deadline: 1000, cancelMode: 'skip' })
+                    .subscribe({ next: it => result.push(it), error: e => error = e });
+                expect(mockWebSocket.send).toHaveBeenCalledWith('[48,101,{"receive_progress":true},"thing",[]]');
+
+                receive$.next('[50,101,{"progress":true},["partial"]]');
+                vi.advanceTimersByTime(999);
+                expect(error).toBeUndefined();
+                vi.advanceTimersByTime(1);
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[49,101,{"mode":"skip"}]');
+                expect(result).toEqual([[['partial']]]);
+                expect(error).toEqual(new WampError('wamp.error.timeout', ['call did not finish within 1000 ms']));
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('does not cancel a call which finished before its deadline', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            vi.useFakeTimers();
+            try {
+                channel.call('thing', [], undefined, { deadline: 1000 }).subscribe();
+                receive$.next('[50,101,{},["done"]]');
+                vi.advanceTimersByTime(1000);
+                expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        describe('progressive call invocations', () => {
+            const welcome = '[2, 123, {"roles":{"dealer":{"features":' +
+                '{"progressive_call_results":true,"progressive_call_invocations":true,"call_canceling":true}}}}]';
+
+            it('sends each input in a progressive call', async () => {
+                const { channel, mockWebSocket, receive$ } = await prepareWampChannel(welcome);
+                const input$ = new Subject<ArgsAndDict>();
+                let result: any[] = [];
+                channel.callProgressive('thing', input$).pipe(toArray()).subscribe(it => result = it);
+                input$.next([['a']]);
+                input$.next([['b'], { last: true }]);
+                input$.complete();
+                expect(mockWebSocket.send).toHaveBeenCalledTimes(3);
+                expect(mockWebSocket.send).toHaveBeenCalledWith('[48,101,{"receive_progress":true,"progress":true},"thing",["a"]]');
+                expect(mockWebSocket.send).toHaveBeenCalledWith('[48,101,{"receive_progress":true,"progress":true},"thing",["b"],{"last":true}]');
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[48,101,{"receive_progress":true},"thing"]');
+
+                receive$.next('[50,101,{},["done"]]');
+                await handleQueuedEvents();
+                expect(result).toEqual([[['done']]]);
+            });
+
+            it('cancels the call when the input errors', async () => {
+                const { channel, mockWebSocket } = await prepareWampChannel(welcome);
+                const input$ = new Subject<ArgsAndDict>();
+                let error: any;
+                channel.callProgressive('thing', input$).subscribe({ error: e => error = e });
+                input$.next([['a']]);
+                input$.error(new Error('no more input'));
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[49,101,{"mode":"kill"}]');
+                expect(error).toEqual(new Error('no more input'));
+            });
+
+            it('stops sending input once the call finished', async () => {
+                const { channel, mockWebSocket, receive$ } = await prepareWampChannel(welcome);
+                const input$ = new Subject<ArgsAndDict>();
+                channel.callProgressive('thing', input$).subscribe();
+                input$.next([['a']]);
+                receive$.next('[50,101,{},["done"]]');
+                await handleQueuedEvents();
+                input$.next([['b']]);
+                input$.complete();
+                expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+                expect(input$.observed).toBe(false);
+            });
+
+            it('errors when the router does not support them', async () => {
+                const { channel, mockWebSocket } = await prepareWampChannel();
+                let error: any;
+                channel.callProgressive('thing', of([['a']])).subscribe({ error: e => error = e });
+                expect(error).toEqual(new WampError('wamp.error.feature_not_supported', ['Router does not support progressive call invocations']));
+                expect(mockWebSocket.send).not.toHaveBeenCalled();
+            });
+        });
     });
 
     describe("RPC callee", () => {
@@ -277,6 +701,14 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledWith('[64,101,{"receive_progress":true},"my.function"]');
         });
 
+        it('registers a function with options', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.register('my.function', () => EMPTY, { match: 'prefix', invoke: 'roundrobin' });
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith(
+                '[64,101,{"receive_progress":true,"match":"prefix","invoke":"roundrobin"},"my.function"]');
+        });
+
         it('succeeds at registering a function', async () => {
             const { channel, receive$ } = await prepareWampChannel();
             let subs: any;
@@ -298,7 +730,7 @@ describe('wamp', () => {
             receive$.next('[8,64,101,{},"wamp.error.procedure_already_exists"]');
             await Promise.resolve();
             await Promise.resolve();
-            expect(error).toEqual([{}, 'wamp.error.procedure_already_exists']);
+            expect(error).toEqual(new WampError('wamp.error.procedure_already_exists'));
         });
 
         it('handles a progressive function call', async () => {
@@ -315,7 +747,7 @@ describe('wamp', () => {
 
             // Call the function
             receive$.next('[68,1000,123,{"receive_progress": true},[123, "abc"],{"some": "data"}]');
-            expect(funcs.func1).toHaveBeenCalledWith([123, 'abc'], {some: 'data'});
+            expect(funcs.func1).toHaveBeenCalledWith([123, 'abc'], {some: 'data'}, {procedure: 'my.function1', receive_progress: true});
 
             expect(mockWebSocket.send).toHaveBeenCalledTimes(1); // Only for registering...
 
@@ -329,6 +761,101 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledWith('[70,1000,{}]');
         });
 
+        it('passes the input of a progressive invocation', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const funcs = {
+                double: (args?: any[], dict?: any, details?: InvocationDetails) =>
+                    details!.input$!.pipe(map(([inputArgs]): ArgsAndDict => [[inputArgs![0] * 2]]))
+            };
+            vi.spyOn(funcs, 'double');
+            channel.register('my.function1', funcs.double);
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"receive_progress":true,"progress":true},[1]]');
+            receive$.next('[68,1000,123,{"progress":true},[2]]');
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[70,1000,{"progress":true},[2]]');
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[70,1000,{"progress":true},[4]]');
+
+            // The final invocation completes the input
+            receive$.next('[68,1000,123,{}]');
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[70,1000,{}]');
+            expect(funcs.double).toHaveBeenCalledTimes(1);
+            expect(funcs.double).toHaveBeenCalledWith([1], undefined,
+                { procedure: 'my.function1', receive_progress: true, input$: expect.any(Observable) });
+        });
+
+        it('ignores the rest of the input of a progressive invocation which finished', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const funcs = { func1: (...argsAndDict: ArgsAndDict) => of<ArgsAndDict>([['done']]) };
+            vi.spyOn(funcs, 'func1');
+            channel.register('my.function1', funcs.func1);
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"progress":true},[1]]');
+            await Promise.resolve();
+            receive$.next('[68,1000,123,{"progress":true},[2]]');
+            receive$.next('[68,1000,123,{}]');
+            await Promise.resolve();
+            expect(funcs.func1).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(2); // REGISTER and one YIELD
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[70,1000,{},["done"]]');
+
+            // The final part ended it, so the same id may be used again
+            receive$.next('[68,1000,123,{},[3]]');
+            expect(funcs.func1).toHaveBeenCalledTimes(2);
+        });
+
+        it('forgets a progressive invocation once it is interrupted', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const func = vi.fn().mockReturnValue(never());
+            channel.register('my.function1', func);
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"progress":true},[1]]');
+            receive$.next('[69,1000,{"mode":"kill"}]');
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith(
+                '[8,68,1000,{},"wamp.error.cancelled",["function call has been cancelled"]]');
+
+            // No more input follows an INTERRUPT, so the same id may be used again
+            receive$.next('[68,1000,123,{},[2]]');
+            expect(func).toHaveBeenCalledTimes(2);
+        });
+
+        it('forgets a progressive invocation which finished once the router interrupts it', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            const func = vi.fn().mockReturnValue(of([['done']]));
+            channel.register('my.function1', func);
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"progress":true},[1]]');
+            await Promise.resolve();
+            receive$.next('[69,1000,{"mode":"killnowait"}]');
+            receive$.next('[68,1000,123,{},[2]]');
+            expect(func).toHaveBeenCalledTimes(2);
+        });
+
+        it('ignores the rest of the input of a rejected progressive invocation', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const func = vi.fn().mockReturnValue(never());
+            channel.register('my.function1', func, { concurrency: 1, overflow: 'reject' });
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{}]');
+            receive$.next('[68,1001,123,{"progress":true},[1]]');
+            receive$.next('[68,1001,123,{"progress":true},[2]]');
+            receive$.next('[68,1001,123,{}]');
+            expect(func).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(2); // REGISTER and one ERROR
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith(
+                '[8,68,1001,{},"wamp.error.unavailable",["my.function1 is handling 1 invocations already"]]');
+        });
+
         it('handles a non-progressive function call', async () => {
             const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
             const funcRsp$ = new Subject<ArgsAndDict>();
@@ -343,7 +870,7 @@ describe('wamp', () => {
 
             // Call the function non-progress
             receive$.next('[68,1000,123,{},["arg"]]');
-            expect(funcs.func1).toHaveBeenCalledWith(['arg'], undefined);
+            expect(funcs.func1).toHaveBeenCalledWith(['arg'], undefined, {procedure: 'my.function1', receive_progress: false});
 
             expect(mockWebSocket.send).toHaveBeenCalledTimes(1); // Only for registering...
 
@@ -370,7 +897,7 @@ describe('wamp', () => {
 
             // Call the function non-progress
             receive$.next('[68,1000,123,{},["arg"]]');
-            expect(funcs.func1).toHaveBeenCalledWith(['arg'], undefined);
+            expect(funcs.func1).toHaveBeenCalledWith(['arg'], undefined, {procedure: 'my.function1', receive_progress: false});
 
             expect(mockWebSocket.send).toHaveBeenCalledTimes(1); // Only for registering...
 
@@ -381,6 +908,114 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledWith('[70,1000,{}]');
         });
 
+        it('passes the invoked procedure of a pattern based registration', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const funcs = {
+                func1: (...argsAndDict: ArgsAndDict) => of([['done']] as ArgsAndDict)
+            };
+            vi.spyOn(funcs, 'func1');
+
+            channel.register('com.app.device.', funcs.func1, { match: 'prefix', invoke: 'roundrobin' });
+            expect(mockWebSocket.send).toHaveBeenCalledWith(
+                '[64,101,{"receive_progress":true,"match":"prefix","invoke":"roundrobin"},"com.app.device."]');
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"procedure":"com.app.device.lamp.toggle"},["arg"]]');
+            expect(funcs.func1).toHaveBeenCalledWith(['arg'], undefined, {procedure: 'com.app.device.lamp.toggle', receive_progress: false});
+            await Promise.resolve();
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[70,1000,{},["done"]]');
+        });
+
+        it('passes the caller identity of an invocation', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            const funcs = {
+                func1: (...argsAndDict: ArgsAndDict) => of([['done']] as ArgsAndDict)
+            };
+            vi.spyOn(funcs, 'func1');
+
+            channel.register('my.function1', funcs.func1, { disclose_caller: true });
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"receive_progress":true,"timeout":5000,"caller":42,"caller_authid":"joe","caller_authrole":"admin"}]');
+            expect(funcs.func1).toHaveBeenCalledWith(undefined, undefined, {
+                procedure: 'my.function1',
+                receive_progress: true,
+                timeout: 5000,
+                caller: 42,
+                caller_authid: 'joe',
+                caller_authrole: 'admin'
+            });
+        });
+
+        describe('concurrency', () => {
+            const registerLimited = async (options: RegisterOptions) => {
+                const prepared = await prepareWampChannel();
+                const running: Subject<ArgsAndDict>[] = [];
+                const func = vi.fn(() => {
+                    const rsp$ = new Subject<ArgsAndDict>();
+                    running.push(rsp$);
+                    return rsp$;
+                });
+                prepared.channel.register('my.function', func, options);
+                prepared.receive$.next('[65,101,123]'); // Func registered
+                await Promise.resolve();
+                return { ...prepared, func, running };
+            };
+
+            it('does not send the concurrency options to the router', async () => {
+                const { mockWebSocket } = await registerLimited({ concurrency: 1, overflow: 'reject', maxQueued: 1, rejectUri: 'app.busy' });
+                expect(mockWebSocket.send).toHaveBeenCalledWith('[64,101,{"receive_progress":true},"my.function"]');
+            });
+
+            it('queues invocations beyond the concurrency', async () => {
+                const { mockWebSocket, receive$, func, running } = await registerLimited({ concurrency: 1 });
+                receive$.next('[68,1000,123,{"receive_progress":true}]');
+                receive$.next('[68,1001,123,{"receive_progress":true}]');
+                expect(func).toHaveBeenCalledTimes(1);
+
+                running[0].complete();
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[70,1000,{}]');
+                expect(func).toHaveBeenCalledTimes(2);
+                running[1].error(new WampError('app.failed'));
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[8,68,1001,{},"app.failed"]');
+            });
+
+            it('rejects invocations beyond the concurrency', async () => {
+                const { mockWebSocket, receive$, func } = await registerLimited({ concurrency: 1, overflow: 'reject', rejectUri: 'app.busy' });
+                receive$.next('[68,1000,123,{"receive_progress":true}]');
+                receive$.next('[68,1001,123,{"receive_progress":true}]');
+                expect(func).toHaveBeenCalledTimes(1);
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith(
+                    '[8,68,1001,{},"app.busy",["my.function is handling 1 invocations already"]]');
+            });
+
+            it('rejects invocations when the queue is full', async () => {
+                const { mockWebSocket, receive$, func } = await registerLimited({ concurrency: 1, maxQueued: 1 });
+                receive$.next('[68,1000,123,{"receive_progress":true}]');
+                receive$.next('[68,1001,123,{"receive_progress":true}]');
+                receive$.next('[68,1002,123,{"receive_progress":true}]');
+                expect(func).toHaveBeenCalledTimes(1);
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith(
+                    '[8,68,1002,{},"wamp.error.unavailable",["my.function has 1 invocations queued already"]]');
+            });
+
+            it('removes interrupted invocations from the queue', async () => {
+                const { mockWebSocket, receive$, func, running } = await registerLimited({ concurrency: 1 });
+                receive$.next('[68,1000,123,{"receive_progress":true}]');
+                receive$.next('[68,1001,123,{"receive_progress":true}]');
+                receive$.next('[68,1002,123,{"receive_progress":true}]');
+                receive$.next('[69,1001,{"mode":"kill"}]');
+                expect(mockWebSocket.send).toHaveBeenLastCalledWith('[8,68,1001,{},"wamp.error.cancelled",["function call has been cancelled"]]');
+                receive$.next('[69,1002,{"mode":"killnowait"}]');
+                expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
+
+                running[0].complete();
+                expect(func).toHaveBeenCalledTimes(1);
+            });
+        });
+
         it('unregisters a function', async () => {
             const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
             const funcRsp$ = new Subject<ArgsAndDict>();
@@ -404,6 +1039,19 @@ describe('wamp', () => {
             expect(funcs.func1).toHaveBeenCalledTimes(0);
         });
 
+        it('surfaces unregister errors', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            let errors: any[] = [];
+            channel.backgroundError$.subscribe(e => errors.push(e));
+            const registrationPromise = channel.register('my.function1', () => of([]));
+            receive$.next('[65,101,123]');
+            (await registrationPromise).unsubscribe();
+
+            receive$.next('[8,66,102,{},"wamp.error.no_such_registration"]');
+            await handleQueuedEvents();
+            expect(errors).toEqual([new WampError('wamp.error.no_such_registration')]);
+        });
+
         it('handles a progressive function call error', async () => {
             const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
             const funcRsp$ = new Subject<ArgsAndDict>();
@@ -425,6 +1073,27 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledWith('[8,68,1000,{},"wamp.error",["something went wrong..."]]');
         });
 
+        it('passes the args and kwargs of a WampError to the caller', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            channel.register('my.function1', () => throwError(() => new WampError('com.app.invalid_state', [1, 2], { state: 'off' })));
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{}]');
+            await handleQueuedEvents();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[8,68,1000,{},"com.app.invalid_state",[1,2],{"state":"off"}]');
+        });
+
+        it('sends an error when the function throws', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            channel.register('my.function1', () => { throw new WampError('com.app.failed'); });
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"receive_progress": true}]');
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[8,68,1000,{},"com.app.failed"]');
+        });
+
         it('handles a progressive function call interrupt', async () => {
             const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
             let cancelled = false;
@@ -446,6 +1115,35 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
             expect(mockWebSocket.send).toHaveBeenCalledWith('[8,68,1000,{},"wamp.error.cancelled",["function call has been cancelled"]]');
         });
+
+        it('does not reply to an interrupt with mode killnowait', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let cancelled = false;
+            channel.register('my.function1', () => new Observable<ArgsAndDict>(_ => () => cancelled = true));
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{"receive_progress": true}]');
+            receive$.next('[69,1000,{"mode":"killnowait"}]');
+            await Promise.resolve();
+            expect(cancelled).toBeTruthy();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1); // Only REGISTER
+        });
+
+        it('lets the function finish on an interrupt with mode skip', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const funcRsp$ = new Subject<ArgsAndDict>();
+            channel.register('my.function1', () => funcRsp$);
+            receive$.next('[65,101,123]'); // Func registered
+            await Promise.resolve();
+
+            receive$.next('[68,1000,123,{}]');
+            receive$.next('[69,1000,{"mode":"skip"}]');
+            funcRsp$.next([['result']]);
+            funcRsp$.complete();
+            await Promise.resolve();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[70,1000,{},["result"]]');
+        });
     });
 
     describe('publication', () => {
@@ -456,6 +1154,22 @@ describe('wamp', () => {
             expect(mockWebSocket.send).toHaveBeenCalledWith('[16,101,{"acknowledge":true},"some.topic",["hello","event"]]');
         });
 
+        it('publishes an event with options', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.publish('some.topic', ['hello'], undefined, { exclude_me: false, eligible: [1, 2], exclude: [3] });
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith(
+                '[16,101,{"acknowledge":true,"exclude_me":false,"eligible":[1,2],"exclude":[3]},"some.topic",["hello"]]');
+        });
+
+        it('does not send the outbox option', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.publish('some.topic', ['hello'], undefined, { outbox: true });
+            channel.call('thing', [], undefined, { outbox: true }).subscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[16,101,{"acknowledge":true},"some.topic",["hello"]]');
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[48,102,{"receive_progress":true},"thing",[]]');
+        });
+
         it('waits for publication', async () => {
             const { channel, receive$ } = await prepareWampChannel();
             let pubId = 0;
@@ -473,7 +1187,218 @@ describe('wamp', () => {
             expect(error).toBeUndefined();
             receive$.next('[8,16,101,{},"wamp.big.failure"]');
             await Promise.resolve();
-            expect(error).toEqual([{}, 'wamp.big.failure']);
+            expect(error).toEqual(new WampError('wamp.big.failure'));
+        });
+    });
+
+    describe('subscription', () => {
+        it('subscribes to a topic', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.subscribe('some.topic').subscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[32,101,{},"some.topic"]');
+        });
+
+        it('subscribes to a topic with options', async () => {
+            const { channel, mockWebSocket } = await prepareWampChannel();
+            channel.subscribe('some.topic', { match: 'prefix' }).subscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[32,101,{"match":"prefix"},"some.topic"]');
+        });
+
+        it('receives events with their details', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            let result: any[] = [];
+            channel.subscribe('some.topic').subscribe(it => result.push(it));
+            receive$.next('[33,101,555]'); // Subscribed with id 555
+            await handleQueuedEvents();
+
+            receive$.next('[36,555,1001,{},["hello"],{"some":"data"}]');
+            receive$.next('[36,555,1002,{"publisher":42}]');
+            receive$.next('[36,556,1003,{},["not for me"]]');
+            await handleQueuedEvents();
+            expect(result).toEqual([
+                [['hello'], {some: 'data'}, {publication: 1001, topic: 'some.topic'}],
+                [undefined, undefined, {publication: 1002, topic: 'some.topic', publisher: 42}]
+            ]);
+        });
+
+        it('exposes the actual topic of a pattern based subscription', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let result: any[] = [];
+            channel.subscribe('com.app.device.', { match: 'prefix', get_retained: true }).subscribe(it => result.push(it));
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[32,101,{"match":"prefix","get_retained":true},"com.app.device."]');
+            receive$.next('[33,101,555]');
+            await handleQueuedEvents();
+
+            receive$.next('[36,555,1001,{"topic":"com.app.device.lamp","retained":true},[true]]');
+            await handleQueuedEvents();
+            expect(result).toEqual([
+                [[true], undefined, {publication: 1001, topic: 'com.app.device.lamp', retained: true}]
+            ]);
+        });
+
+        it('unsubscribes from a topic', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            const subscription = channel.subscribe('some.topic').subscribe();
+            receive$.next('[33,101,555]');
+            await handleQueuedEvents();
+
+            subscription.unsubscribe();
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
+            expect(mockWebSocket.send).toHaveBeenCalledWith('[34,102,555]');
+        });
+
+        it('shares a subscription to the same topic', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let result: any[] = [];
+            const subscription1 = channel.subscribe('some.topic').subscribe(([args]) => result.push(['1', ...args!]));
+            const subscription2 = channel.subscribe('some.topic').subscribe(([args]) => result.push(['2', ...args!]));
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+            receive$.next('[33,101,555]');
+            await handleQueuedEvents();
+
+            receive$.next('[36,555,1001,{},["hello"]]');
+            subscription1.unsubscribe();
+            receive$.next('[36,555,1002,{},["still here"]]');
+            expect(result).toEqual([['1', 'hello'], ['2', 'hello'], ['2', 'still here']]);
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+
+            subscription2.unsubscribe();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[34,102,555]');
+            channel.subscribe('some.topic').subscribe();
+            expect(mockWebSocket.send).toHaveBeenLastCalledWith('[32,103,{},"some.topic"]');
+        });
+
+        it('only unsubscribes when the last subscriber of a subscription id is gone', async () => {
+            const { channel, mockWebSocket, receive$ } = await prepareWampChannel();
+            let result: any[] = [];
+            const subscription1 = channel.subscribe('some.topic').subscribe();
+            channel.subscribe('some.topic', { get_retained: true }).subscribe(([args]) => result.push(args));
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
+            // The router returns the same subscription for both
+            receive$.next('[33,101,555]');
+            receive$.next('[33,102,555]');
+            await handleQueuedEvents();
+
+            subscription1.unsubscribe();
+            receive$.next('[36,555,1001,{},["hello"]]');
+            expect(result).toEqual([['hello']]);
+            expect(mockWebSocket.send).toHaveBeenCalledTimes(2);
+        });
+
+        it('surfaces unsubscribe errors', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            let errors: any[] = [];
+            channel.backgroundError$.subscribe(e => errors.push(e));
+            const subscription = channel.subscribe('some.topic').subscribe();
+            receive$.next('[33,101,555]');
+            await handleQueuedEvents();
+
+            subscription.unsubscribe();
+            receive$.next('[8,34,102,{},"wamp.error.no_such_subscription"]');
+            await handleQueuedEvents();
+            expect(errors).toEqual([new WampError('wamp.error.no_such_subscription')]);
+        });
+
+        it('awaits the confirmation of an unsubscribe', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            let errors: any[] = [];
+            channel.backgroundError$.subscribe(e => errors.push(e));
+            const subscription = channel.subscribe('some.topic').subscribe();
+            receive$.next('[33,101,555]');
+            await handleQueuedEvents();
+
+            subscription.unsubscribe();
+            receive$.next('[35,102]');
+            receive$.next('[8,34,102,{},"wamp.error.no_such_subscription"]');
+            await handleQueuedEvents();
+            expect(errors).toEqual([]);
+        });
+    });
+
+    describe('metrics', () => {
+        const lastMetrics = (channel: WampChannel) => {
+            let metrics: WampMetrics | undefined;
+            channel.metrics$.subscribe(it => metrics = it).unsubscribe();
+            return metrics!;
+        };
+
+        it('counts messages by type and errors by URI', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            channel.call('my.function').subscribe({ error: () => {} });
+            channel.call('my.function').subscribe({ error: () => {} });
+            receive$.next('[8,48,101,{},"app.failed"]');
+            receive$.next('[8,48,102,{},"app.failed"]');
+
+            const metrics = lastMetrics(channel);
+            expect(metrics.sent).toEqual({ [WampMessageEnum.HELLO]: 1, [WampMessageEnum.CALL]: 2 });
+            expect(metrics.received).toEqual({ [WampMessageEnum.WELCOME]: 1, [WampMessageEnum.ERROR]: 2 });
+            expect(metrics.errorsReceived).toEqual({ 'app.failed': 2 });
+            expect(metrics.errorsSent).toEqual({});
+        });
+
+        it('tracks in-flight calls and their latency', async () => {
+            vi.useFakeTimers();
+            try {
+                const { channel, receive$ } = await prepareWampChannel();
+                channel.call('my.function').subscribe();
+                channel.call('my.function').subscribe();
+                channel.call('other.function').subscribe().unsubscribe();
+                expect(lastMetrics(channel).inFlightCalls).toBe(2);
+
+                vi.advanceTimersByTime(3);
+                receive$.next('[50,101,{"progress":true},[1]]');
+                receive$.next('[50,101,{}]');
+                vi.advanceTimersByTime(30);
+                receive$.next('[8,48,102,{},"app.failed"]');
+
+                const metrics = lastMetrics(channel);
+                expect(metrics.inFlightCalls).toBe(0);
+                expect(metrics.callLatency).toEqual({
+                    'my.function': { count: 2, min: 3, max: 33, mean: 18, buckets: [0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0] }
+                });
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('tracks invocations, registrations and subscriptions', async () => {
+            const { channel, receive$ } = await prepareWampChannel();
+            const running: Subject<ArgsAndDict>[] = [];
+            const registration = channel.register('my.function', () => {
+                const rsp$ = new Subject<ArgsAndDict>();
+                running.push(rsp$);
+                return rsp$;
+            }, { concurrency: 1 });
+            receive$.next('[65,101,123]');
+            await registration;
+            const subscription = channel.subscribe('some.topic').subscribe();
+            receive$.next('[33,102,555]');
+            await handleQueuedEvents();
+
+            receive$.next('[68,1000,123,{"receive_progress":true}]');
+            receive$.next('[68,1001,123,{"receive_progress":true}]');
+            expect(lastMetrics(channel)).toEqual(expect.objectContaining({
+                inFlightInvocations: 1, queuedInvocations: 1, registrations: 1, subscriptions: 1 }));
+
+            running[0].error(new WampError('app.failed'));
+            running[1].complete();
+            (await registration).unsubscribe();
+            subscription.unsubscribe();
+            expect(lastMetrics(channel)).toEqual(expect.objectContaining({
+                inFlightInvocations: 0, queuedInvocations: 0, registrations: 0, subscriptions: 0,
+                errorsSent: { 'app.failed': 1 } }));
+        });
+
+        it('emits a new snapshot on every change', async () => {
+            const { channel } = await prepareWampChannel();
+            const snapshots: WampMetrics[] = [];
+            channel.metrics$.subscribe(it => snapshots.push(it));
+            channel.publish('some.topic');
+            expect(snapshots.length).toBe(2);
+            expect(snapshots[0].sent[WampMessageEnum.PUBLISH]).toBeUndefined();
+            expect(snapshots[1].sent[WampMessageEnum.PUBLISH]).toBe(1);
         });
     });
 });
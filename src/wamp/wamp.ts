@@ -1,11 +1,17 @@
-import { Observable, of, merge, throwError, defer, Subscription, lastValueFrom, firstValueFrom,
-    switchMap, map, take, takeWhile, finalize, shareReplay, takeUntil, filter, mergeMap } from 'rxjs';
+import { Observable, of, merge, concat, throwError, defer, timer, EMPTY, NEVER, Subscription, Subject, AsyncSubject, lastValueFrom, firstValueFrom,
+    switchMap, map, take, takeWhile, finalize, share, shareReplay, takeUntil, filter, mergeMap, tap, ignoreElements, catchError, ReplaySubject } from 'rxjs';
 import { divide, hookObs, ILogger, logSubUnsub } from 'rxjs-utilities';
+import { WampData, WampSerializer, defaultSerializers, selectSerializer } from './serializers';
+import { WampMetrics, createMetricsRecorder } from './metrics';
+import { WampMiddleware, applyMiddleware } from './middleware';
+import { PayloadPassthruOptions, PptKeyring, encodePayload, decodePayload, pptOptions, withoutPptOptions } from './ppt';
 
 // Minimal WebSocket abstraction interface needed for this WAMP implementation
 export interface WampWebSocket {
-    send: (data: string) => void;
-    receive$: Observable<string>;
+    send: (data: WampData) => void;
+    receive$: Observable<WampData>;
+    // The negotiated subprotocol, which determines the serializer to use
+    protocol?: string;
 };
 
 export interface IMessageEvent { data: any; }
@@ -17,12 +23,16 @@ export interface IWebSocket {
     onerror: ((e: any) => any) | null;
     onmessage: ((ev: any) => any) | null; // ev must at least fit interface IMessageEvent
     onopen: ((...args: any[]) => any) | null;
+    binaryType?: string;
+    protocol?: string;
     close(): void;
-    send(data: string): void;
+    send(data: WampData): void;
 }
 
-export type MakeWebSocket = (url: string, protocol: string) => IWebSocket;
-export type MakeObservableWebSocket = (url: string, protocol: string) => Observable<WampWebSocket>;
+// protocol is the subprotocol of the preferred serializer. A factory which lets the router pick
+// the serializer, offers all of protocols instead.
+export type MakeWebSocket = (url: string, protocol: string, protocols?: string[]) => IWebSocket;
+export type MakeObservableWebSocket = (url: string, protocol: string, protocols?: string[]) => Observable<WampWebSocket>;
 
 export type Args = any[];
 export type Dict = {[key: string]: any};
@@ -33,21 +43,178 @@ export type ChallengeResponse = string | [string, Dict];
 export interface LoginAuth {
     authid: string;
     authmethods: string[];
-    challenge: (method: string, extra: Dict) => ChallengeResponse;
+    authextra?: Dict;
+    challenge: (method: string, extra: Dict) => ChallengeResponse | Promise<ChallengeResponse>;
 }
 
-export type RegisteredFunc = (args?: Args, dict?: Dict) => Observable<ArgsAndDict>;
+// Details of an invocation of a registered function. When the registration is not
+// a pattern based one, procedure is the registered URI.
+// The caller is only known when it is disclosed by the router. The payload passthru mode
+// options are those the payload was encoded with.
+export interface InvocationDetails extends PayloadPassthruOptions {
+    procedure: string;
+    receive_progress: boolean;
+    // Only with a progressive invocation, i.e. when the caller used callProgressive(). Emits
+    // each part of the payload the caller sends, starting with the args and dict passed to
+    // the function, and completes when the caller is done.
+    input$?: Observable<ArgsAndDict>;
+    timeout?: number;
+    caller?: number;
+    caller_authid?: string;
+    caller_authrole?: string;
+}
+
+export type RegisteredFunc = (args?: Args, dict?: Dict, details?: InvocationDetails) => Observable<ArgsAndDict>;
+
+export type MatchPolicy = 'exact' | 'prefix' | 'wildcard';
+export type InvocationPolicy = 'single' | 'roundrobin' | 'random' | 'first' | 'last';
+export type CancelMode = 'skip' | 'kill' | 'killnowait';
+
+// Options which can be passed per operation. They are sent to the router as-is.
+// See the WAMP RFC for their exact meaning.
+// With the payload passthru mode options, the args and kwargs are encoded in a single payload.
+export interface CallOptions extends PayloadPassthruOptions {
+    // Milliseconds after which the router cancels the call
+    timeout?: number;
+    disclose_me?: boolean;
+    // The following are handled by the client and not sent to the router.
+    // How the call is canceled when unsubscribed or past its deadline. Defaults to 'kill'.
+    cancelMode?: CancelMode;
+    // Milliseconds after which the client cancels the call and errors with 'wamp.error.timeout'
+    deadline?: number;
+    // Holds the call in the outbox of a reconnecting channel while it is disconnected
+    outbox?: boolean;
+}
+
+export interface PublishOptions extends PayloadPassthruOptions {
+    exclude_me?: boolean;
+    disclose_me?: boolean;
+    eligible?: number[];
+    eligible_authid?: string[];
+    eligible_authrole?: string[];
+    exclude?: number[];
+    exclude_authid?: string[];
+    exclude_authrole?: string[];
+    retain?: boolean;
+    // Not sent to the router. Holds the publication in the outbox of a reconnecting channel
+    // while it is disconnected.
+    outbox?: boolean;
+}
+
+// The payload passthru mode options are not sent to the router. Events are required to have
+// them, so others are rejected.
+export interface SubscribeOptions extends PayloadPassthruOptions {
+    match?: MatchPolicy;
+    get_retained?: boolean;
+}
+
+// Details of a received event. When the subscription is not a pattern based one,
+// topic is the subscribed URI.
+export interface EventDetails extends PayloadPassthruOptions {
+    publication: number;
+    topic: string;
+    publisher?: number;
+    publisher_authid?: string;
+    publisher_authrole?: string;
+    retained?: boolean;
+}
+
+export type EventArgsAndDict = [Args | undefined, Dict | undefined, EventDetails];
+
+// The payload passthru mode options are not sent to the router. Invocations are required to
+// have them, so others are rejected, and results are encoded with them. Without them, results
+// are encoded like the invocation.
+export interface RegisterOptions extends PayloadPassthruOptions {
+    match?: MatchPolicy;
+    invoke?: InvocationPolicy;
+    disclose_caller?: boolean;
+    // The following are handled by the client and not sent to the router.
+    // Maximum number of invocations handled at the same time. Unlimited by default.
+    concurrency?: number;
+    // What happens to an invocation while 'concurrency' invocations are running. It is either
+    // held in the queue until one finishes (the default), or rejected right away.
+    overflow?: 'queue' | 'reject';
+    // Maximum number of queued invocations. Invocations beyond it are rejected. Unlimited by default.
+    maxQueued?: number;
+    // Error URI of rejected invocations. Defaults to 'wamp.error.unavailable'.
+    rejectUri?: string;
+}
+
+export type RouterFeatures = {[feature: string]: boolean | undefined};
+
+export interface RouterRoles {
+    broker?: { features?: RouterFeatures };
+    dealer?: { features?: RouterFeatures };
+}
+
+// Session information received from the router in the WELCOME message
+export interface WampSession {
+    id: number;
+    authid?: string;
+    authrole?: string;
+    authmethod?: string;
+    authprovider?: string;
+    authextra?: Dict;
+    roles: RouterRoles;
+}
 
 export interface WampChannel {
-    call(uri: string, args?: Args, dict?: Dict): Observable<ArgsAndDict>;
-    register(uri: string, func: RegisteredFunc): Promise<Subscription>;
-    publish(uri: string, args?: Args, dict?: Dict): Promise<number>;
-    subscribe(uri: string): Observable<ArgsAndDict>;
+    session: WampSession;
+    call(uri: string, args?: Args, dict?: Dict, options?: CallOptions): Observable<ArgsAndDict>;
+    // Sends each emitted payload as part of one call. Requires a router which supports
+    // progressive call invocations.
+    callProgressive(uri: string, input$: Observable<ArgsAndDict>, options?: CallOptions): Observable<ArgsAndDict>;
+    register(uri: string, func: RegisteredFunc, options?: RegisterOptions): Promise<Subscription>;
+    publish(uri: string, args?: Args, dict?: Dict, options?: PublishOptions): Promise<number>;
+    subscribe(uri: string, options?: SubscribeOptions): Observable<EventArgsAndDict>;
+    // Sends GOODBYE and resolves once the router replied to it.
+    close(reason?: string, message?: string): Promise<void>;
+    // Completes when the session is closed by close(). Errors with a WampSessionClosedError
+    // when the router closes the session or violates the protocol, or with the transport
+    // error when it disconnects.
+    closed$: Observable<never>;
+    // Emits a snapshot of the metrics of this channel right away, and a new one on every change.
+    metrics$: Observable<WampMetrics>;
+    // Emits errors the router replied to operations which happen in the background, and so
+    // can't be reported otherwise. Like a failed unsubscribe or unregister.
+    backgroundError$: Observable<WampError>;
+}
+
+// A WAMP error, with the error URI and the payload of an ERROR message.
+// Thrown by call(), publish() and register() when the router or callee replied with an
+// error, and by logon when the router aborted. When a registered function throws it, its
+// args and kwargs are passed to the caller as-is.
+export class WampError extends Error {
+    constructor(public readonly uri: string, public readonly args?: Args, public readonly kwargs?: Dict,
+        public readonly details: Dict = {}) {
+        super(typeof args?.[0] === 'string' ? `${uri}: ${args[0]}` : details.message || uri);
+        this.name = 'WampError';
+    }
+}
+
+// Thrown when the router ends a session by sending GOODBYE or ABORT
+export class WampSessionClosedError extends WampError {
+    constructor(public readonly reason: string, details: Dict = {}) {
+        super(reason, undefined, undefined, details);
+        this.message = details.message || `Session closed by router: ${reason}`;
+        this.name = 'WampSessionClosedError';
+    }
+}
+
+// Thrown when the router sent something which violates the protocol. The session is
+// aborted with 'wamp.error.protocol_violation'.
+export class WampProtocolViolationError extends WampSessionClosedError {
+    constructor(message: string) {
+        super('wamp.error.protocol_violation', { message });
+        this.name = 'WampProtocolViolationError';
+    }
 }
 
-export const makeObservableWebSocket = (makeWebSocket: MakeWebSocket): MakeObservableWebSocket => (url, protocol) => {
+export const makeObservableWebSocket = (makeWebSocket: MakeWebSocket): MakeObservableWebSocket => (url, protocol, protocols) => {
     const webSocket$ = new Observable<IWebSocket>(newChannelObserver => {
-        const ws = makeWebSocket(url, protocol);
+        const ws = makeWebSocket(url, protocol, protocols);
+        // Receive binary frames as ArrayBuffer, both in the browser and in the ws lib
+        ws.binaryType = 'arraybuffer';
         ws.onopen = () => newChannelObserver.next(ws);
         ws.onclose = () => newChannelObserver.error(new Error('Websocket disconnected'));
         ws.onerror = e => newChannelObserver.error(e.error);
@@ -62,7 +229,7 @@ export const makeObservableWebSocket = (makeWebSocket: MakeWebSocket): MakeObser
         shareReplay({bufferSize: 1, refCount: true}));
 
     const receive$ = webSocket$.pipe(
-        switchMap(ws => new Observable<string>(msgObserver => {
+        switchMap(ws => new Observable<WampData>(msgObserver => {
             const onMsg = (ev: IMessageEvent) => msgObserver.next(ev.data);
             ws.onmessage = onMsg;
             return () => {
@@ -73,14 +240,14 @@ export const makeObservableWebSocket = (makeWebSocket: MakeWebSocket): MakeObser
         })));
 
     return webSocket$.pipe(
-        map(ws => ({ send: data => ws.send(data), receive$ })));
+        map(ws => ({ send: data => ws.send(data), receive$, protocol: ws.protocol })));
 };
 
-const defaultMakeObservableWebSocket = makeObservableWebSocket((url, protocol) => new WebSocket(url, protocol));
+const defaultMakeObservableWebSocket = makeObservableWebSocket((url, protocol, protocols = [protocol]) => new WebSocket(url, protocols));
 
 export type MakeLogger = (hdr: string) => ILogger;
 
-enum WampMessageEnum {
+export enum WampMessageEnum {
     HELLO = 1,
     WELCOME = 2,
     ABORT = 3,
@@ -109,23 +276,27 @@ enum WampMessageEnum {
 
 interface HelloMsgDetails {
     roles: {
-        caller?: { features?: { progressive_call_results?: boolean, call_canceling?: boolean }},
-        callee?: { features?: { progressive_call_results?: boolean, call_canceling?: boolean }},
+        caller?: { features?: { progressive_call_results?: boolean, progressive_call_invocations?: boolean, call_canceling?: boolean }},
+        callee?: { features?: { progressive_call_results?: boolean, progressive_call_invocations?: boolean, call_canceling?: boolean }},
         subscriber?: {},
         publisher?: {}
     },
     authmethods?: string[],
-    authid?: string
+    authid?: string,
+    authextra?: Dict
 }
-interface CallMsgOptions { receive_progress?: boolean }
-interface ResultMsgDetails { progress?: boolean }
-interface SubscribeMsgDetails {}
-interface EventMsgDetails {}
-interface PublishMsgDetails { acknowledge?: boolean }
-interface CancelMsgOptions { mode: 'skip' | 'kill' | 'killnowait' }
-interface RegisterMsgOptions {}
-interface InvocationMsgDetails { receive_progress?: boolean }
-interface YieldMsgOptions { progress?: boolean }
+interface WelcomeMsgDetails extends Partial<Omit<WampSession, 'id'>> {}
+interface CallMsgOptions extends Omit<CallOptions, 'cancelMode' | 'deadline' | 'outbox'> { receive_progress?: boolean, progress?: boolean }
+interface ResultMsgDetails extends PayloadPassthruOptions { progress?: boolean }
+interface SubscribeMsgDetails extends Omit<SubscribeOptions, keyof PayloadPassthruOptions> {}
+interface EventMsgDetails extends Omit<Partial<EventDetails>, 'publication'> {}
+interface PublishMsgDetails extends Omit<PublishOptions, 'outbox'> { acknowledge?: boolean }
+interface CancelMsgOptions { mode?: CancelMode }
+interface RegisterMsgOptions extends Omit<RegisterOptions, 'concurrency' | 'overflow' | 'maxQueued' | 'rejectUri' | keyof PayloadPassthruOptions> {
+    receive_progress?: boolean
+}
+interface InvocationMsgDetails extends Partial<Omit<InvocationDetails, 'input$'>> { progress?: boolean }
+interface YieldMsgOptions extends PayloadPassthruOptions { progress?: boolean }
 
 // See the WAMP RFC for the meaning of all these messages
 // https://wamp-proto.org/_static/gen/wamp_latest.html
@@ -138,7 +309,8 @@ type WampHelloMsg = [WampMessageEnum.HELLO, string, HelloMsgDetails];
 type WampChallengeMsg = [WampMessageEnum.CHALLENGE, string, Dict];
 type WampAbortMsg = [WampMessageEnum.ABORT, Dict, string];
 type WampAuthenticateMsg = [WampMessageEnum.AUTHENTICATE, string, Dict];
-type WampWelcomeMsg = [WampMessageEnum.WELCOME, number, Dict];
+type WampWelcomeMsg = [WampMessageEnum.WELCOME, number, WelcomeMsgDetails];
+type WampGoodbyeMsg = [WampMessageEnum.GOODBYE, Dict, string];
 
 // RPC caller
 type WampCallMsg = [WampMessageEnum.CALL, number, CallMsgOptions, string, Args?, Dict?];
@@ -166,7 +338,7 @@ type WampUnsubscribedMsg = [WampMessageEnum.UNSUBSCRIBED, number];
 type WampEventMsg = [WampMessageEnum.EVENT, number, number, EventMsgDetails, Args?, Dict?];
 
 type WampMessage =
-    WampHelloMsg | WampChallengeMsg | WampAuthenticateMsg | WampWelcomeMsg | WampAbortMsg |
+    WampHelloMsg | WampChallengeMsg | WampAuthenticateMsg | WampWelcomeMsg | WampAbortMsg | WampGoodbyeMsg |
     WampErrorMsg |
     WampCallMsg | WampResultMsg | WampCancelMsg |
     WampRegisterMsg | WampRegisteredMsg | WampUnregisterMsg | WampUnregisteredMsg |
@@ -174,22 +346,147 @@ type WampMessage =
     WampSubscribeMsg | WampSubscribedMsg | WampUnsubscribeMsg | WampUnsubscribedMsg | WampEventMsg |
     WampPublishMsg | WampPublishedMsg;
 
-const trimArray = (a: any[]): any[] => {
+// Validation of received messages. The checks of the fields following the message type,
+// for each message a client can receive.
+type FieldCheck = (value: any) => boolean;
+
+const isId: FieldCheck = value => Number.isInteger(value) && value >= 0 && value <= 2 ** 53;
+const isString: FieldCheck = value => typeof value === 'string';
+const isDict: FieldCheck = value => !!value && typeof value === 'object' && !Array.isArray(value);
+const isList: FieldCheck = value => Array.isArray(value);
+const isMsgType: FieldCheck = value => typeof value === 'number' && !!WampMessageEnum[value];
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+
+const receivedMsgFields: {[msgType: number]: FieldCheck[]} = {
+    [WampMessageEnum.WELCOME]:      [isId, isDict],
+    [WampMessageEnum.ABORT]:        [isDict, isString],
+    [WampMessageEnum.CHALLENGE]:    [isString, isDict],
+    [WampMessageEnum.GOODBYE]:      [isDict, isString],
+    [WampMessageEnum.ERROR]:        [isMsgType, isId, isDict, isString, optional(isList), optional(isDict)],
+    [WampMessageEnum.PUBLISHED]:    [isId, isId],
+    [WampMessageEnum.SUBSCRIBED]:   [isId, isId],
+    [WampMessageEnum.UNSUBSCRIBED]: [isId, optional(isDict)],
+    [WampMessageEnum.EVENT]:        [isId, isId, isDict, optional(isList), optional(isDict)],
+    [WampMessageEnum.RESULT]:       [isId, isDict, optional(isList), optional(isDict)],
+    [WampMessageEnum.REGISTERED]:   [isId, isId],
+    [WampMessageEnum.UNREGISTERED]: [isId, optional(isDict)],
+    [WampMessageEnum.INVOCATION]:   [isId, isId, isDict, optional(isList), optional(isDict)],
+    [WampMessageEnum.INTERRUPT]:    [isId, isDict]
+};
+
+// Returns what is wrong with a received message, or undefined when it is valid
+const validateMessage = (msg: any): string | undefined => {
+    if (!Array.isArray(msg) || msg.length === 0) {
+        return 'Received message is not a non-empty array';
+    }
+    const [msgType, ...fields] = msg;
+    const checks = receivedMsgFields[msgType];
+    if (!checks) {
+        return `Received unexpected message type ${msgType}`;
+    }
+    const name = WampMessageEnum[msgType];
+    const required = checks.filter(check => !check(undefined)).length;
+    if (fields.length < required || fields.length > checks.length) {
+        return `Received ${name} message with ${fields.length} fields`;
+    }
+    const invalid = checks.findIndex((check, i) => !check(fields[i]));
+    if (invalid >= 0) {
+        return `Received ${name} message with invalid field ${invalid + 1}`;
+    }
+    return undefined;
+};
+
+// Drops trailing undefined fields of a message, e.g. absent args and kwargs
+export const trimArray = (a: any[]): any[] => {
     while (a.length > 0 && a[a.length - 1] === undefined) {
         a.pop();
     }
     return a;
-}
+};
+
+// Error of an invocation interrupted with mode 'killnowait', which is not sent to the router
+const killedWithoutReply = {};
 
 let nextIdChannel = 0;
 
-export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string, auth?: LoginAuth, makeLogger: MakeLogger = makeNullLogger, initialReqId?: number): Promise<WampChannel> => {
+export interface WampChannelOptions {
+    // Request ids start after this one. Random by default.
+    initialReqId?: number;
+    // Defaults to the one of the subprotocol of the websocket
+    serializer?: WampSerializer;
+    // Keys to encrypt and decrypt payloads in payload passthru mode with
+    keyring?: PptKeyring;
+    // Milliseconds close() waits for the router to reply to GOODBYE. Defaults to 10000.
+    closeTimeout?: number;
+}
+
+export interface ConnectOptions extends Omit<WampChannelOptions, 'initialReqId' | 'serializer'> {
+    // Offered to the router in order of preference. The router picks one of them.
+    serializers?: WampSerializer[];
+    // All operations on the channel pass through these, the first one being the outermost.
+    middlewares?: WampMiddleware[];
+}
+
+// A number as options is the initialReqId.
+export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string, auth?: LoginAuth, makeLogger: MakeLogger = makeNullLogger,
+    options: WampChannelOptions | number = {}): Promise<WampChannel> => {
+    const { initialReqId, serializer = selectSerializer(defaultSerializers, ws.protocol), keyring, closeTimeout = 10000 } =
+        typeof options === 'number' ? { initialReqId: options } : options;
     const idChannel = ++nextIdChannel;
     const logger = makeLogger(`${idChannel}/`);
     const logObs = <T>(hdr: string) => logSubUnsub<T>(makeLogger(`${idChannel}/${hdr}`), true);
+    const metrics = createMetricsRecorder();
+    const errorUriOf = (msg: WampMessage) => msg[0] === WampMessageEnum.ERROR ? msg[4] : undefined;
+
+    // Once the session is over, everything still waiting for a message errors with the reason,
+    // which releases the websocket. Nothing is sent anymore then.
+    const sessionEnd = new Subject<never>();
+    let sessionEndError: any;
+    const endSession = (e: any) => {
+        if (sessionEndError === undefined) {
+            sessionEndError = e;
+            sessionEnd.error(e);
+        }
+    };
+
     // Initial stuff
-    const message$ = ws.receive$.pipe(
-        map(data => JSON.parse(data) as WampMessage),
+    const send = (msg: WampMessage) => {
+        if (sessionEndError !== undefined) {
+            return;
+        }
+        const trimmedMsg = trimArray(msg);
+        logger.log('send', trimmedMsg);
+        ws.send(serializer.serialize(trimmedMsg));
+        metrics.messageSent(msg[0], errorUriOf(msg));
+    };
+
+    // A protocol violation aborts the session, and errors everything waiting for a message
+    let violation: WampProtocolViolationError | undefined;
+    const violateProtocol = (message: string, data: WampData) => {
+        if (!violation) {
+            logger.error(message, data);
+            violation = new WampProtocolViolationError(message);
+            send([WampMessageEnum.ABORT, { message }, 'wamp.error.protocol_violation']);
+        }
+        return violation;
+    };
+    const parseMessage = (data: WampData) => {
+        let msg: any;
+        try {
+            msg = serializer.deserialize(data);
+        } catch (e: any) {
+            throw violateProtocol(`Could not deserialize message: ${e.message}`, data);
+        }
+        const problem = validateMessage(msg);
+        if (problem) {
+            throw violateProtocol(problem, data);
+        }
+        metrics.messageReceived(msg[0], errorUriOf(msg));
+        return msg as WampMessage;
+    };
+
+    const message$ = merge(sessionEnd, ws.receive$).pipe(
+        map(parseMessage),
         logObs('receive'));
 
     const getMsgOfType = divide(([msgType]: WampMessage) => msgType, message$);
@@ -202,16 +499,10 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
             map(msg => msg as unknown as T)
         );
 
-    const send = (msg: WampMessage) => {
-        const trimmedMsg = trimArray(msg);
-        logger.log('send', trimmedMsg);
-        ws.send(JSON.stringify(trimmedMsg));
-    };
-
     // Logon
     let helloDetails: HelloMsgDetails = { roles: {
-        caller: { features: { progressive_call_results: true, call_canceling: true }},
-        callee: { features: { progressive_call_results: true, call_canceling: true }},
+        caller: { features: { progressive_call_results: true, progressive_call_invocations: true, call_canceling: true }},
+        callee: { features: { progressive_call_results: true, progressive_call_invocations: true, call_canceling: true }},
         subscriber: {},
         publisher: {}
     }};
@@ -219,7 +510,8 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
         helloDetails = {
             ...helloDetails,
             authid: auth.authid,
-            authmethods: auth.authmethods
+            authmethods: auth.authmethods,
+            authextra: auth.authextra
         };
     }
     send([WampMessageEnum.HELLO, realm, helloDetails]);
@@ -227,18 +519,20 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
         receive$<WampWelcomeMsg>(WampMessageEnum.WELCOME),
         receive$<WampChallengeMsg>(WampMessageEnum.CHALLENGE),
         receive$<WampAbortMsg>(WampMessageEnum.ABORT)
-            .pipe(mergeMap(([, ...error]) => throwError(() => error)))
+            .pipe(mergeMap(([, details, reason]) => throwError(() => new WampError(reason, undefined, undefined, details))))
     );
+    let welcome: WampWelcomeMsg;
     while(true) {
         const welcomeOrChallenge = await firstValueFrom(welcomeOrChallenge$);
         if (welcomeOrChallenge[0] === WampMessageEnum.WELCOME) {
+            welcome = welcomeOrChallenge;
             break;
         }
         if (!auth) {
             throw new Error('Received unexpected challenge');
         }
         const [, method, extra ] = welcomeOrChallenge;
-        const sig = auth.challenge(method, extra);
+        const sig = await auth.challenge(method, extra);
         if (Array.isArray(sig)) {
             send([WampMessageEnum.AUTHENTICATE, ...sig]);
         } else {
@@ -246,26 +540,93 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
         }
     }
 
+    const [, sessionId, welcomeDetails] = welcome;
+    const session: WampSession = { ...welcomeDetails, id: sessionId, roles: welcomeDetails.roles || {} };
+
+    // Only use optional dealer features when the router advertises them
+    const dealerFeatures = session.roles.dealer?.features || {};
+    const receiveProgress = dealerFeatures.progressive_call_results ? { receive_progress: true } : {};
+
+    // Session end
+    const closed = new AsyncSubject<void>();
+    let closing = false;
+
+    const closed$ = merge(
+        receive$<WampGoodbyeMsg>(WampMessageEnum.GOODBYE).pipe(filter(() => !closing)),
+        receive$<WampAbortMsg>(WampMessageEnum.ABORT)
+    ).pipe(
+        take(1),
+        mergeMap(([msgType, details, reason]) => {
+            if (msgType === WampMessageEnum.GOODBYE) {
+                send([WampMessageEnum.GOODBYE, {}, 'wamp.close.goodbye_and_out']);
+            }
+            return throwError(() => new WampSessionClosedError(reason, details));
+        }),
+        takeUntil(closed),
+        // Shared, so the GOODBYE is replied only once. Also subscribers after the end get the error.
+        share({ connector: () => new ReplaySubject<never>(), resetOnError: false, resetOnComplete: false }));
+    // Also when nobody else subscribes, so the session ends when the router ends it
+    closed$.subscribe({ error: endSession });
+
+    const close = async (reason = 'wamp.close.close_realm', message?: string) => {
+        closing = true;
+        send([WampMessageEnum.GOODBYE, message ? { message } : {}, reason]);
+        // The router either replies with GOODBYE, or it aborts. Either way the session is over.
+        // When it doesn't reply in time, the session is considered over too.
+        await firstValueFrom(merge(
+            receive$<WampGoodbyeMsg>(WampMessageEnum.GOODBYE),
+            receive$<WampAbortMsg>(WampMessageEnum.ABORT),
+            timer(closeTimeout).pipe(tap(() => logger.warn(`Router did not reply to GOODBYE within ${closeTimeout} ms`)))));
+        closed.next();
+        closed.complete();
+        endSession(new WampSessionClosedError(reason, { message: 'Session closed' }));
+    };
+
     // Requests general
     let nextReqId = initialReqId || Math.floor(Math.random() * 16777216);
     const error$ = divide(([,, reqId]: WampErrorMsg) => reqId, receive$<WampErrorMsg>(WampMessageEnum.ERROR));
     const throwWhenError$ = (reqId: number) => error$(reqId).pipe(
-        switchMap(([,,, ...e]) => throwError(() => e)));
+        switchMap(([,,, details, uri, args, kwargs]) => throwError(() => new WampError(uri, args, kwargs, details))));
+
+    // Waits for the reply to a request nobody waits for. When the router replied with an
+    // error, it is emitted by backgroundError$.
+    const backgroundError = new Subject<WampError>();
+    const awaitInBackground = (reqId: number, reply$: Observable<unknown>, what: string) =>
+        firstValueFrom(merge(reply$, throwWhenError$(reqId)))
+            .catch(e => {
+                // Errors because the session ended are reported by closed$ already
+                if (e instanceof WampError && !(e instanceof WampSessionClosedError)) {
+                    logger.warn(`${what} failed`, e);
+                    backgroundError.next(e);
+                }
+            });
 
     // *** RPC
     // Caller
     const result$ = divide(([, reqId]: WampResultMsg) => reqId, receive$<WampResultMsg>(WampMessageEnum.RESULT));
 
-    const call = (uri: string, args?: Args, dict?: Dict) => defer(() => {
+    // Sends the CALL message(s) with sendCall() and emits the results. The observable returned
+    // by sendCall() is subscribed to while the call runs. When it errors, the call is canceled.
+    const startCall = (uri: string, options: CallOptions,
+        sendCall: (reqId: number, callOptions: CallMsgOptions) => Observable<never>) => defer(() => {
+        const { cancelMode = 'kill', deadline, outbox, ...callOptions } = options;
         const reqId = ++nextReqId;
-        send([WampMessageEnum.CALL, reqId, { receive_progress: true}, uri, args, dict]);
-        return of(reqId)
+        const sending$ = sendCall(reqId, { ...receiveProgress, ...callOptions });
+        const sentAt = Date.now();
+        metrics.add('inFlightCalls', 1);
+        const deadline$ = deadline === undefined ? NEVER : timer(deadline).pipe(
+            mergeMap(_ => throwError(() => new WampError('wamp.error.timeout', [`call did not finish within ${deadline} ms`]))));
+        return of({ reqId, cancelMode, deadline$, sending$, sentAt });
     }).pipe(
-        switchMap(reqId => merge(
+        switchMap(({ reqId, cancelMode, deadline$, sending$, sentAt }) => merge(
             result$(reqId),
             throwWhenError$(reqId)
             ).pipe(
                 takeWhile(msg => !!msg[2].progress, true),
+                tap({
+                    complete: () => metrics.callLatency(uri, Date.now() - sentAt),
+                    error: () => metrics.callLatency(uri, Date.now() - sentAt)
+                }),
                 // Make sure it only cancels the call when it is unsubscribed before it
                 // was otherwise completed.
                 hookObs(() => {
@@ -275,84 +636,256 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
                         onNext: () => {},
                         onComplete: () => complete = true,
                         onUnsubscribed: () => {
-                            if (!complete) {
-                                send([WampMessageEnum.CANCEL, reqId, { mode: 'kill' }]);
+                            if (!complete && dealerFeatures.call_canceling) {
+                                send([WampMessageEnum.CANCEL, reqId, { mode: cancelMode }]);
                             }
                         }
                     };
-                }))
+                }),
+                // Passing the deadline or failing to send unsubscribes above, which cancels the call
+                takeUntil(merge(deadline$, sending$)),
+                finalize(() => metrics.add('inFlightCalls', -1)))
         ),
+        map(([,, details, ...payload]) => ({ details, payload: decodePayload(details, uri, payload, keyring) })),
         // When it is the last received message and it has no arguments, it is
         // merely a completion message. So don't emit the payload of it.
-        filter(([,,{progress}, args]) => progress || (!!args && args.length > 0)),
-        map(([,,, ...args]) => args),
+        filter(({ details: { progress }, payload: [args] }) => progress || (!!args && args.length > 0)),
+        map(({ payload }) => payload),
         logObs(`call ${uri}`));
 
+    const call = (uri: string, args?: Args, dict?: Dict, options: CallOptions = {}) =>
+        startCall(uri, options, (reqId, callOptions) => {
+            const [callArgs, callDict] = encodePayload(callOptions, uri, [args, dict], keyring);
+            send([WampMessageEnum.CALL, reqId, callOptions, uri, callArgs, callDict]);
+            return NEVER;
+        });
+
+    // Each payload is sent in a CALL with progress set. A final CALL without payload tells
+    // the callee the input is complete.
+    const callProgressive = (uri: string, input$: Observable<ArgsAndDict>, options: CallOptions = {}) =>
+        !dealerFeatures.progressive_call_invocations
+            ? throwError(() => new WampError('wamp.error.feature_not_supported', ['Router does not support progressive call invocations']))
+            : startCall(uri, options, (reqId, callOptions) => concat(
+                input$.pipe(
+                    tap(payload => {
+                        const [callArgs, callDict] = encodePayload(callOptions, uri, payload, keyring);
+                        send([WampMessageEnum.CALL, reqId, { ...callOptions, progress: true }, uri, callArgs, callDict]);
+                    }),
+                    ignoreElements()),
+                defer(() => {
+                    send([WampMessageEnum.CALL, reqId, callOptions, uri]);
+                    return NEVER;
+                })));
+
     // Callee
     const registered$   = divide(([, reqId]: WampRegisteredMsg) => reqId, receive$<WampRegisteredMsg>(WampMessageEnum.REGISTERED));
     const unregistered$ = divide(([, reqId]: WampUnregisteredMsg) => reqId, receive$<WampUnregisteredMsg>(WampMessageEnum.UNREGISTERED));
     const invocation$   = divide(([,,registrationId]: WampInvocationMsg) => registrationId, receive$<WampInvocationMsg>(WampMessageEnum.INVOCATION));
     const interrupt$    = divide(([, invocationId]: WampInterruptMsg) => invocationId, receive$<WampInterruptMsg>(WampMessageEnum.INTERRUPT));
 
-    const register = async (uri: string, func: RegisteredFunc) => {
+    const register = async (uri: string, func: RegisteredFunc, options: RegisterOptions = {}) => {
+        const { concurrency = Infinity, overflow = 'queue', maxQueued = Infinity, rejectUri = 'wamp.error.unavailable',
+            ...registerOptions } = options;
+        const requiredPpt = pptOptions(registerOptions);
         const registerReqId = ++nextReqId;
-        send([WampMessageEnum.REGISTER, registerReqId, { receive_progress: true }, uri]);
+        send([WampMessageEnum.REGISTER, registerReqId, { ...receiveProgress, ...withoutPptOptions(registerOptions) }, uri]);
 
         const registrationId = await firstValueFrom(merge(
             registered$(registerReqId).pipe(
                 map(([,,registrationId]) => registrationId)),
             throwWhenError$(registerReqId)
         ));
+        metrics.add('registrations', 1);
 
         // Subscription to return
         const subs = new Subscription();
 
+        // Invocations waiting for one of the running ones to finish
+        let running = 0;
+        const queue: { invoke: () => void, interrupted: Subscription }[] = [];
+        const invocationDone = () => {
+            --running;
+            metrics.add('inFlightInvocations', -1);
+            const next = queue.shift();
+            if (next) {
+                metrics.add('queuedInvocations', -1);
+                next.interrupted.unsubscribe();
+                next.invoke();
+            }
+        };
+        subs.add(() => {
+            metrics.add('queuedInvocations', -queue.length);
+            queue.splice(0).forEach(queued => queued.interrupted.unsubscribe());
+        });
+
+        // Input of progressive invocations of which the caller didn't send everything yet
+        const inputs = new Map<number, ReplaySubject<ArgsAndDict>>();
+        // Progressive invocations which finished before the caller sent all input. The rest of
+        // their input may still be underway, which is ignored up to and including the final part.
+        const finishedInputs = new Set<number>();
+        const finishInput = (invocationReqId: number) => {
+            if (inputs.delete(invocationReqId)) {
+                finishedInputs.add(invocationReqId);
+            }
+        };
+        // No more input follows an INTERRUPT
+        subs.add(receive$<WampInterruptMsg>(WampMessageEnum.INTERRUPT)
+            .pipe(catchError(() => EMPTY))
+            .subscribe(([, invocationReqId]) => {
+                inputs.delete(invocationReqId);
+                finishedInputs.delete(invocationReqId);
+            }));
+
         subs.add(invocation$(registrationId)
-            .pipe(logObs(`invocation ${registrationId}: ${uri}`))
-            .subscribe(([,invocationReqId,, details, args, dict]) => {
+            .pipe(
+                logObs(`invocation ${registrationId}: ${uri}`),
+                // The end of the session is reported by closed$
+                catchError(() => EMPTY))
+            .subscribe(([,invocationReqId,, { progress, ...details }, ...payload]) => {
+                if (finishedInputs.has(invocationReqId)) {
+                    if (!progress) {
+                        finishedInputs.delete(invocationReqId);
+                    }
+                    return;
+                }
+                // The called procedure, which differs from uri for a pattern based registration
+                const procedure = details.procedure || uri;
+                const input = inputs.get(invocationReqId);
+                if (input) {
+                    // Next part of the input of a running invocation
+                    try {
+                        const [inputArgs, inputDict] = decodePayload(details, procedure, payload, keyring, requiredPpt);
+                        if (inputArgs || inputDict) {
+                            input.next([inputArgs, inputDict]);
+                        }
+                    } catch (e) {
+                        if (progress) {
+                            finishInput(invocationReqId);
+                        } else {
+                            inputs.delete(invocationReqId);
+                        }
+                        input.error(e);
+                        return;
+                    }
+                    if (!progress) {
+                        inputs.delete(invocationReqId);
+                        input.complete();
+                    }
+                    return;
+                }
+
                 // Handle an invocation
-                const sendError = (error: any) => send([WampMessageEnum.ERROR, WampMessageEnum.INVOCATION, invocationReqId,
-                    {}, error.uri || 'wamp.error', [error.message || {error}]]);
-                const funcRsp$ = func(args, dict).pipe(
-                    takeUntil(interrupt$(invocationReqId).pipe(
-                        take(1),
-                        mergeMap(_ => throwError(() => ({
-                            uri: 'wamp.error.cancelled',
-                            message: 'function call has been cancelled'
-                        })))
-                    )),
-                    logObs(`invocation rsp ${invocationReqId}`));
-                if (details.receive_progress) {
-                    funcRsp$.subscribe({
-                        next: ([rspArgs, rspDict]) => // Next has payload
-                            send([WampMessageEnum.YIELD, invocationReqId, { progress: true }, rspArgs, rspDict]),
-                        error: sendError,
-                        // Final result doesn't have payload
-                        complete: () => send([WampMessageEnum.YIELD, invocationReqId, {}])
-                    });
+                const sendError = (error: any) => {
+                    if (error === killedWithoutReply) {
+                        return;
+                    }
+                    if (error instanceof WampError) {
+                        send([WampMessageEnum.ERROR, WampMessageEnum.INVOCATION, invocationReqId,
+                            {}, error.uri, error.args, error.kwargs]);
+                    } else {
+                        send([WampMessageEnum.ERROR, WampMessageEnum.INVOCATION, invocationReqId,
+                            {}, error.uri || 'wamp.error', [error.message || {error}]]);
+                    }
+                };
+                let args: Args | undefined;
+                let dict: Dict | undefined;
+                try {
+                    [args, dict] = decodePayload(details, procedure, payload, keyring, requiredPpt);
+                } catch (e) {
+                    if (progress) {
+                        finishedInputs.add(invocationReqId);
+                    }
+                    sendError(e);
+                    return;
+                }
+                // Results are encoded like the invocation, unless the registration tells otherwise
+                const resultPpt = requiredPpt.ppt_scheme ? requiredPpt : pptOptions(details);
+                const yieldOptions = (rsp: ArgsAndDict): YieldMsgOptions => rsp[0] || rsp[1] ? resultPpt : {};
+                const invocationDetails: InvocationDetails = {
+                    ...details,
+                    procedure,
+                    receive_progress: !!details.receive_progress
+                };
+                if (progress) {
+                    // Replays, so a queued invocation doesn't miss any
+                    const newInput = new ReplaySubject<ArgsAndDict>();
+                    newInput.next([args, dict]);
+                    inputs.set(invocationReqId, newInput);
+                    invocationDetails.input$ = newInput.asObservable();
+                }
+                const cancelledError = () => new WampError('wamp.error.cancelled', ['function call has been cancelled']);
+                const invoke = () => {
+                    ++running;
+                    metrics.add('inFlightInvocations', 1);
+                    // Deferred, so an exception thrown by func is sent to the caller too
+                    const funcRsp$ = defer(() => func(args, dict, invocationDetails)).pipe(
+                        map(rsp => encodePayload(resultPpt, procedure, rsp, keyring)),
+                        // The caller can't send more input once it has the final result
+                        finalize(() => finishInput(invocationReqId)),
+                        // With mode 'skip' the caller isn't interested anymore, but the function may finish.
+                        // With 'killnowait' the dealer doesn't wait for a reply.
+                        takeUntil(interrupt$(invocationReqId).pipe(
+                            filter(([,, { mode }]) => mode !== 'skip'),
+                            take(1),
+                            mergeMap(([,, { mode }]) => throwError(() => mode === 'killnowait' ? killedWithoutReply : cancelledError()))
+                        )),
+                        logObs(`invocation rsp ${invocationReqId}`));
+                    if (details.receive_progress) {
+                        funcRsp$.subscribe({
+                            next: ([rspArgs, rspDict]) => // Next has payload
+                                send([WampMessageEnum.YIELD, invocationReqId, { progress: true, ...yieldOptions([rspArgs, rspDict]) },
+                                    rspArgs, rspDict]),
+                            error: e => {
+                                sendError(e);
+                                invocationDone();
+                            },
+                            // Final result doesn't have payload
+                            complete: () => {
+                                send([WampMessageEnum.YIELD, invocationReqId, {}]);
+                                invocationDone();
+                            }
+                        });
+                    } else {
+                        // Does not expect progressive result, so just send final result or an empty
+                        // payload when no payload was emitted.
+                        lastValueFrom(funcRsp$, { defaultValue: [] })
+                            .then(([rspArgs, rspDict]) =>
+                                send([WampMessageEnum.YIELD, invocationReqId, yieldOptions([rspArgs, rspDict]), rspArgs, rspDict]))
+                            .catch(sendError)
+                            .finally(invocationDone);
+                    }
+                };
+
+                if (running < concurrency) {
+                    invoke();
+                } else if (overflow === 'reject') {
+                    finishInput(invocationReqId);
+                    sendError(new WampError(rejectUri, [`${uri} is handling ${running} invocations already`]));
+                } else if (queue.length >= maxQueued) {
+                    finishInput(invocationReqId);
+                    sendError(new WampError(rejectUri, [`${uri} has ${maxQueued} invocations queued already`]));
                 } else {
-                    // Does not expect progressive result, so just send final result or an empty
-                    // payload when no payload was emitted.
-                    lastValueFrom(funcRsp$, { defaultValue: [] })
-                        .then(([rspArgs, rspDict]) =>
-                            send([WampMessageEnum.YIELD, invocationReqId, { }, rspArgs, rspDict]))
-                        .catch(sendError);
+                    // An interrupted invocation is removed from the queue without ever running
+                    const queued = {
+                        invoke,
+                        interrupted: interrupt$(invocationReqId).pipe(take(1), catchError(() => EMPTY)).subscribe(([,, { mode }]) => {
+                            queue.splice(queue.indexOf(queued), 1);
+                            metrics.add('queuedInvocations', -1);
+                            finishInput(invocationReqId);
+                            sendError(!mode || mode === 'kill' ? cancelledError() : killedWithoutReply);
+                        })
+                    };
+                    queue.push(queued);
+                    metrics.add('queuedInvocations', 1);
                 }
             }));
 
         // On unsubscribe, send an UNREGISTER message.
         subs.add(new Subscription(async () => {
+            metrics.add('registrations', -1);
             const unregisterReqId = ++nextReqId;
             send([WampMessageEnum.UNREGISTER, unregisterReqId, registrationId]);
-            // Although we're not interested in whether deregistration succeeded,
-            // lets still wait for the response, so it won't be some unexpected msg
-            // we receive.
-            await firstValueFrom(merge(
-                    unregistered$(unregisterReqId),
-                    throwWhenError$(unregisterReqId)
-                ))
-                // Make sure fire and forget exception doesn't fall through
-                .catch(_ => {});
+            await awaitInBackground(unregisterReqId, unregistered$(unregisterReqId), `Unregistering ${uri}`);
         }));
         return subs;
     };
@@ -362,42 +895,105 @@ export const createWampChannelFromWs = async (ws: WampWebSocket, realm: string,
     // publish
     const published$ = divide(([, reqId]: WampPublishedMsg) => reqId, receive$<WampPublishedMsg>(WampMessageEnum.PUBLISHED));
 
-    const publish = (uri: string, args?: Args, dict?: Dict) => {
+    const publish = (uri: string, args?: Args, dict?: Dict, options: PublishOptions = {}) => firstValueFrom(defer(() => {
+        const { outbox, ...publishOptions } = options;
+        const [publishArgs, publishDict] = encodePayload(publishOptions, uri, [args, dict], keyring);
         const reqId = ++nextReqId;
-        send([WampMessageEnum.PUBLISH, reqId, { acknowledge: true}, uri, args, dict]);
-        return firstValueFrom(merge(
+        send([WampMessageEnum.PUBLISH, reqId, { acknowledge: true, ...publishOptions }, uri, publishArgs, publishDict]);
+        return merge(
             published$(reqId).pipe(
                 map(([,,publicationId]) => publicationId)),
             throwWhenError$(reqId)
-        ));
-    }
+        );
+    }));
 
     // subscribe
-    const subscribed$ = divide(([, reqId]: WampSubscribedMsg) => reqId, receive$<WampSubscribedMsg>(WampMessageEnum.SUBSCRIBED));
-    const event$      = divide(([, subsId]: WampEventMsg) => subsId, receive$<WampEventMsg>(WampMessageEnum.EVENT));
+    const subscribed$   = divide(([, reqId]: WampSubscribedMsg) => reqId, receive$<WampSubscribedMsg>(WampMessageEnum.SUBSCRIBED));
+    const unsubscribed$ = divide(([, reqId]: WampUnsubscribedMsg) => reqId, receive$<WampUnsubscribedMsg>(WampMessageEnum.UNSUBSCRIBED));
+    const event$        = divide(([, subsId]: WampEventMsg) => subsId, receive$<WampEventMsg>(WampMessageEnum.EVENT));
+
+    // Subscribers of the same URI and options share one subscription. The router may also
+    // return the same subscription id for different options, so it is only unsubscribed
+    // when the last subscriber of that id is gone.
+    const sharedSubscriptions = new Map<string, Observable<WampEventMsg>>();
+    const subscriberCounts = new Map<number, number>();
 
-    const subscribe = (uri: string) => defer(() => {
+    const unsubscribe = (uri: string, subsId: number) => {
+        const count = subscriberCounts.get(subsId)! - 1;
+        if (count > 0) {
+            subscriberCounts.set(subsId, count);
+            return;
+        }
+        subscriberCounts.delete(subsId);
+        metrics.add('subscriptions', -1);
         const reqId = ++nextReqId;
-        send([WampMessageEnum.SUBSCRIBE, reqId, {}, uri]);
-        return merge(
-            subscribed$(reqId).pipe(
-                map(([,,subsId]) => subsId)
-            ),
-            throwWhenError$(reqId)
-        )
-    }).pipe(
-        switchMap(subsId => event$(subsId).pipe(
-            finalize(() => send([WampMessageEnum.UNSUBSCRIBE, ++nextReqId, subsId]))
-        )),
-        map(([,,,,...argsAndDict]) => argsAndDict),
+        send([WampMessageEnum.UNSUBSCRIBE, reqId, subsId]);
+        awaitInBackground(reqId, unsubscribed$(reqId), `Unsubscribing ${uri}`);
+    };
+
+    const subscribeShared = (uri: string, options: SubscribeOptions = {}) => {
+        const key = JSON.stringify([uri, options]);
+        const required = pptOptions(options);
+        let shared = sharedSubscriptions.get(key);
+        if (!shared) {
+            shared = defer(() => {
+                const reqId = ++nextReqId;
+                send([WampMessageEnum.SUBSCRIBE, reqId, withoutPptOptions({ ...options }), uri]);
+                return merge(
+                    subscribed$(reqId).pipe(
+                        map(([,,subsId]) => subsId)
+                    ),
+                    throwWhenError$(reqId)
+                )
+            }).pipe(
+                switchMap(subsId => {
+                    const count = subscriberCounts.get(subsId) || 0;
+                    if (count === 0) {
+                        metrics.add('subscriptions', 1);
+                    }
+                    subscriberCounts.set(subsId, count + 1);
+                    return event$(subsId).pipe(
+                        finalize(() => unsubscribe(uri, subsId)));
+                }),
+                // Completes when the session ends, unless that is because something went wrong
+                catchError(e => e instanceof WampSessionClosedError && !(e instanceof WampProtocolViolationError)
+                    ? EMPTY
+                    : throwError(() => e)),
+                // An event which can't be decoded is skipped. Its error is emitted by backgroundError$.
+                mergeMap(([msgType, subsId, publication, details, ...payload]) => {
+                    try {
+                        const decoded: WampEventMsg = [msgType, subsId, publication, details, ...decodePayload(details, details.topic || uri, payload, keyring, required)];
+                        return of(decoded);
+                    } catch (e: any) {
+                        logger.warn(`Event of ${uri} rejected`, e);
+                        backgroundError.next(e);
+                        return EMPTY;
+                    }
+                }),
+                finalize(() => sharedSubscriptions.delete(key)),
+                share());
+            sharedSubscriptions.set(key, shared);
+        }
+        return shared;
+    };
+
+    const subscribe = (uri: string, options?: SubscribeOptions) => subscribeShared(uri, options).pipe(
+        map(([,, publication, details, args, dict]): EventArgsAndDict =>
+            [args, dict, { topic: uri, ...details, publication }]),
         logObs(`subscribe ${uri}`));
 
     // Return object
     return {
+        session,
         call,
+        callProgressive,
         register,
         publish,
-        subscribe
+        subscribe,
+        close,
+        closed$,
+        metrics$: metrics.metrics$,
+        backgroundError$: backgroundError.asObservable()
     };
 };
 
@@ -419,7 +1015,13 @@ export const makeConsoleLogger: MakeLogger = hdr => ({
 export const connectWampChannel = (
     url: string, realm: string, auth?: LoginAuth,
     makeObservableWebSocket: MakeObservableWebSocket = defaultMakeObservableWebSocket,
-    makeLogger: MakeLogger = makeNullLogger
+    makeLogger: MakeLogger = makeNullLogger,
+    { serializers = defaultSerializers, middlewares = [], ...channelOptions }: ConnectOptions = {}
 ): Observable<WampChannel> =>
-    makeObservableWebSocket(url, 'wamp.2.json').pipe(
-        switchMap(ws => createWampChannelFromWs(ws, realm, auth, makeLogger)));
+    makeObservableWebSocket(url, serializers[0].protocol, serializers.map(it => it.protocol)).pipe(
+        switchMap(ws => createWampChannelFromWs(ws, realm, auth, makeLogger,
+            { ...channelOptions, serializer: selectSerializer(serializers, ws.protocol) })),
+        map(channel => applyMiddleware(channel, ...middlewares)),
+        // Complete when the session is closed, which also closes the websocket.
+        switchMap(channel => concat(of(channel), channel.closed$, of(null))),
+        takeWhile((channel): channel is WampChannel => !!channel));